@@ -2,15 +2,22 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { SimulationCanvas } from './components/SimulationCanvas';
 import { Controls } from './components/Controls';
 import { MainMenu } from './components/MainMenu';
-import { SimulationConfig, AudioConfig } from './types';
+import { LevelEditor } from './components/LevelEditor';
+import { SimulationConfig, AudioConfig, LevelDefinition } from './types';
 import { DEFAULT_CONFIG, DEFAULT_AUDIO_CONFIG } from './constants';
+import { LevelEditorState } from './services/levelEditor';
 
-type UIState = 'game' | 'mainMenu' | 'settings';
+type UIState = 'game' | 'mainMenu' | 'settings' | 'editor';
 
 const App: React.FC = () => {
   const [config, setConfig] = useState<SimulationConfig>(DEFAULT_CONFIG);
   const [audioConfig, setAudioConfig] = useState<AudioConfig>(DEFAULT_AUDIO_CONFIG);
   const [uiState, setUiState] = useState<UIState>('mainMenu');
+  const [level, setLevel] = useState<LevelDefinition | null>(null);
+  const [players, setPlayers] = useState(1);
+  // The editor keeps its level and undo history while test-playing or in the menu
+  const [editor] = useState(() => new LevelEditorState());
+  const [isTestPlaying, setIsTestPlaying] = useState(false);
 
   const handleConfigChange = (newConfig: SimulationConfig) => {
     setConfig(newConfig);
@@ -20,17 +27,36 @@ const App: React.FC = () => {
     setAudioConfig(newConfig);
   };
 
+  // Switching level also adopts its slime size, then starts playing
+  const handleSelectLevel = (next: LevelDefinition | null) => {
+    setLevel(next);
+    setConfig(prev => ({ ...prev, particleCount: next ? next.spawn.particleCount : DEFAULT_CONFIG.particleCount }));
+    setIsTestPlaying(false);
+    setUiState('game');
+  };
+
+  // Play the level being edited; ESC comes straight back to the editor
+  const handleTestPlay = (next: LevelDefinition) => {
+    handleSelectLevel(next);
+    setIsTestPlaying(true);
+  };
+
   const handleReset = () => {
     setConfig(DEFAULT_CONFIG);
     setAudioConfig(DEFAULT_AUDIO_CONFIG);
   };
 
   // ESC键切换UI状态
+  // 编辑器里 ESC 用于取消绘制，由编辑器自己处理
   const handleEscapeKey = useCallback((e: KeyboardEvent) => {
     if (e.key === 'Escape') {
-      setUiState(prev => prev === 'game' ? 'mainMenu' : 'game');
+      setUiState(prev => {
+        if (prev === 'editor') return prev;
+        if (prev === 'game') return isTestPlaying ? 'editor' : 'mainMenu';
+        return 'game';
+      });
     }
-  }, []);
+  }, [isTestPlaying]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleEscapeKey);
@@ -40,13 +66,18 @@ const App: React.FC = () => {
   return (
     <div className="w-screen h-screen overflow-hidden bg-white font-sans text-gray-900">
       {/* 游戏画布层 - 始终渲染 */}
-      <SimulationCanvas config={config} audioConfig={audioConfig} isPaused={uiState !== 'game'} />
+      <SimulationCanvas config={config} audioConfig={audioConfig} isPaused={uiState !== 'game'} level={level} players={players} />
 
       {/* UI层 - 根据状态显示不同界面 */}
       {uiState === 'mainMenu' && (
         <MainMenu
           onSettings={() => setUiState('settings')}
           onResume={() => setUiState('game')}
+          onEditor={() => setUiState('editor')}
+          level={level}
+          onSelectLevel={handleSelectLevel}
+          players={players}
+          onPlayersChange={setPlayers}
         />
       )}
 
@@ -84,11 +115,19 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {uiState === 'editor' && (
+        <LevelEditor
+          editor={editor}
+          onTestPlay={handleTestPlay}
+          onExit={() => setUiState('mainMenu')}
+        />
+      )}
+
       {/* 游戏中的ESC提示 */}
       {uiState === 'game' && (
         <div className="absolute bottom-4 left-4 pointer-events-none">
           <div className="bg-black/50 backdrop-blur-sm rounded-lg px-3 py-2">
-            <span className="text-white text-sm">按 <kbd className="px-2 py-1 bg-white/20 rounded font-mono">ESC</kbd> 打开菜单</span>
+            <span className="text-white text-sm">按 <kbd className="px-2 py-1 bg-white/20 rounded font-mono">ESC</kbd> {isTestPlaying ? '返回编辑器' : '打开菜单'}</span>
           </div>
         </div>
       )}
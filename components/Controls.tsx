@@ -24,6 +24,30 @@ export const Controls: React.FC<ControlsProps> = ({ config, audioConfig, onChang
     'debug': '调试'
   };
 
+  const shedLabels: Record<SimulationConfig['shedMode'], string> = {
+    'none': '不掉落',
+    'perHit': '每次受击',
+    'proportional': '按血量比例'
+  };
+
+  const shedHints: Record<SimulationConfig['shedMode'], string> = {
+    'none': '受伤只扣血量，粒子数量不变',
+    'perHit': '每次受伤固定掉落若干粒子',
+    'proportional': '掉落的身体比例与损失的血量比例相同'
+  };
+
+  const solverLabels: Record<SimulationConfig['solver'], string> = {
+    'pairwise': '成对力',
+    'sph': 'SPH',
+    'pbf': 'PBF'
+  };
+
+  const solverHints: Record<SimulationConfig['solver'], string> = {
+    'pairwise': '短程排斥 + 中程吸引的简化模型',
+    'sph': '光滑粒子流体动力学：密度、压力与粘性核函数',
+    'pbf': '基于位置的流体：迭代投影密度约束，带表面张力'
+  };
+
   return (
     <div className="flex flex-col gap-6">
       <div className="flex justify-between items-center border-b pb-4 border-gray-100">
@@ -63,6 +87,94 @@ export const Controls: React.FC<ControlsProps> = ({ config, audioConfig, onChang
             </div>
         </div>
 
+        {/* Fluid Solver */}
+        <div className="bg-emerald-50 p-3 rounded-lg border border-emerald-100">
+            <label className="text-xs font-bold text-emerald-800 uppercase tracking-wide mb-2 block">求解器</label>
+            <div className="flex gap-2">
+                {(['pairwise', 'sph', 'pbf'] as const).map((solver) => (
+                    <button
+                        key={solver}
+                        onClick={() => onChange({...config, solver})}
+                        className={`flex-1 py-1.5 text-xs font-medium rounded transition-all ${
+                            config.solver === solver
+                            ? 'bg-emerald-500 text-white shadow-md'
+                            : 'bg-white text-emerald-700 border border-emerald-200 hover:bg-emerald-100'
+                        }`}
+                    >
+                        {solverLabels[solver]}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-emerald-700/70 mt-2">{solverHints[config.solver]}</p>
+        </div>
+
+        {/* Jelly Mode */}
+        <div className="bg-emerald-50 p-3 rounded-lg border border-emerald-100 space-y-3">
+            <div className="flex justify-between items-center">
+                <label className="text-xs font-bold text-emerald-800 uppercase tracking-wide">果冻模式</label>
+                <button
+                    onClick={() => onChange({...config, jelly: !config.jelly})}
+                    className={`px-3 py-1 text-xs font-medium rounded transition-all ${
+                        config.jelly
+                        ? 'bg-emerald-500 text-white shadow-md'
+                        : 'bg-white text-emerald-700 border border-emerald-200 hover:bg-emerald-100'
+                    }`}
+                >
+                    {config.jelly ? '开启' : '关闭'}
+                </button>
+            </div>
+            {config.jelly && (
+              <>
+                <div className="space-y-1">
+                    <div className="flex justify-between">
+                        <label className="text-xs font-medium text-gray-700">弹簧刚度</label>
+                        <span className="text-xs text-gray-500 font-mono">{config.springStiffness}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="50"
+                        max="600"
+                        step="10"
+                        value={config.springStiffness}
+                        onChange={(e) => handleChange('springStiffness', Number(e.target.value))}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <div className="flex justify-between">
+                        <label className="text-xs font-medium text-gray-700">弹簧阻尼</label>
+                        <span className="text-xs text-gray-500 font-mono">{config.springDamping}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="0"
+                        max="8"
+                        step="0.5"
+                        value={config.springDamping}
+                        onChange={(e) => handleChange('springDamping', Number(e.target.value))}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <div className="flex justify-between">
+                        <label className="text-xs font-medium text-gray-700">断裂拉伸比</label>
+                        <span className="text-xs text-gray-500 font-mono">{config.springBreakRatio.toFixed(1)}×</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="1.2"
+                        max="4"
+                        step="0.1"
+                        value={config.springBreakRatio}
+                        onChange={(e) => handleChange('springBreakRatio', Number(e.target.value))}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                    />
+                </div>
+                <p className="text-xs text-emerald-700/70">弹簧保持形状，拉伸过度会断开，重新吸收时再连接；调试视图中可见弹簧网络。刚度或阻尼过高时请增加物理子步</p>
+              </>
+            )}
+        </div>
+
         {/* Viscosity */}
         <div className="space-y-2">
             <div className="flex justify-between">
@@ -81,57 +193,309 @@ export const Controls: React.FC<ControlsProps> = ({ config, audioConfig, onChang
             <p className="text-xs text-gray-400">控制流体的粘稠程度</p>
         </div>
 
-        {/* Attraction */}
+        {config.solver === 'pairwise' ? (
+          <>
+            {/* Attraction */}
+            <div className="space-y-2">
+                <div className="flex justify-between">
+                    <label className="text-sm font-medium text-gray-700">内聚强度</label>
+                    <span className="text-sm text-gray-500 font-mono">{config.attractionStrength}</span>
+                </div>
+                <input
+                    type="range"
+                    min="0.1"
+                    max="5.0"
+                    step="0.1"
+                    value={config.attractionStrength}
+                    onChange={(e) => handleChange('attractionStrength', Number(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+                <p className="text-xs text-gray-400">粒子聚集的强度</p>
+            </div>
+
+            {/* Repulsion */}
+            <div className="space-y-2">
+                <div className="flex justify-between">
+                    <label className="text-sm font-medium text-gray-700">排斥力（压力）</label>
+                    <span className="text-sm text-gray-500 font-mono">{config.repulsionStrength}</span>
+                </div>
+                <input
+                    type="range"
+                    min="100"
+                    max="2000"
+                    step="100"
+                    value={config.repulsionStrength}
+                    onChange={(e) => handleChange('repulsionStrength', Number(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+                <p className="text-xs text-gray-400">推开粒子以保持体积的力</p>
+            </div>
+          </>
+        ) : (
+          <>
+            {/* Surface Tension */}
+            <div className="space-y-2">
+                <div className="flex justify-between">
+                    <label className="text-sm font-medium text-gray-700">表面张力</label>
+                    <span className="text-sm text-gray-500 font-mono">{config.surfaceTension.toFixed(2)}</span>
+                </div>
+                <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={config.surfaceTension}
+                    onChange={(e) => handleChange('surfaceTension', Number(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+                <p className="text-xs text-gray-400">密度不足时把粒子拉回一起的程度</p>
+            </div>
+
+            {/* Fluid Viscosity */}
+            <div className="space-y-2">
+                <div className="flex justify-between">
+                    <label className="text-sm font-medium text-gray-700">流体粘性</label>
+                    <span className="text-sm text-gray-500 font-mono">{config.viscosity}</span>
+                </div>
+                <input
+                    type="range"
+                    min="0"
+                    max="20"
+                    step="0.5"
+                    value={config.viscosity}
+                    onChange={(e) => handleChange('viscosity', Number(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+                <p className="text-xs text-gray-400">相邻粒子速度趋于一致的快慢</p>
+            </div>
+
+            {/* Rest Density */}
+            <div className="space-y-2">
+                <div className="flex justify-between">
+                    <label className="text-sm font-medium text-gray-700">静止密度</label>
+                    <span className="text-sm text-gray-500 font-mono">{config.restDensity}</span>
+                </div>
+                <input
+                    type="range"
+                    min="2"
+                    max="15"
+                    step="0.5"
+                    value={config.restDensity}
+                    onChange={(e) => handleChange('restDensity', Number(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+                <p className="text-xs text-gray-400">目标密度，越高粒子排得越紧</p>
+            </div>
+
+            {config.solver === 'sph' ? (
+              /* Pressure Stiffness */
+              <div className="space-y-2">
+                  <div className="flex justify-between">
+                      <label className="text-sm font-medium text-gray-700">压力刚度</label>
+                      <span className="text-sm text-gray-500 font-mono">{config.pressureStiffness}</span>
+                  </div>
+                  <input
+                      type="range"
+                      min="200"
+                      max="5000"
+                      step="100"
+                      value={config.pressureStiffness}
+                      onChange={(e) => handleChange('pressureStiffness', Number(e.target.value))}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                  />
+                  <p className="text-xs text-gray-400">偏离静止密度时产生的压力大小</p>
+              </div>
+            ) : (
+              /* Solver Iterations */
+              <div className="space-y-2">
+                  <div className="flex justify-between">
+                      <label className="text-sm font-medium text-gray-700">约束迭代</label>
+                      <span className="text-sm text-gray-500 font-mono">{config.solverIterations}</span>
+                  </div>
+                  <input
+                      type="range"
+                      min="1"
+                      max="10"
+                      step="1"
+                      value={config.solverIterations}
+                      onChange={(e) => handleChange('solverIterations', Number(e.target.value))}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                  />
+                  <p className="text-xs text-gray-400">每次更新投影密度约束的次数，越高越不可压缩</p>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Gravity */}
+        <div className="space-y-2">
+            <div className="flex justify-between">
+                <label className="text-sm font-medium text-gray-700">重力</label>
+                <span className="text-sm text-gray-500 font-mono">{config.gravity}</span>
+            </div>
+            <input
+                type="range"
+                min="0"
+                max="1000"
+                step="50"
+                value={config.gravity}
+                onChange={(e) => handleChange('gravity', Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+        </div>
+
+        {/* Substeps */}
         <div className="space-y-2">
             <div className="flex justify-between">
-                <label className="text-sm font-medium text-gray-700">内聚强度</label>
-                <span className="text-sm text-gray-500 font-mono">{config.attractionStrength}</span>
+                <label className="text-sm font-medium text-gray-700">物理子步</label>
+                <span className="text-sm text-gray-500 font-mono">{config.substeps}</span>
             </div>
             <input
                 type="range"
-                min="0.1"
-                max="5.0"
-                step="0.1"
-                value={config.attractionStrength}
-                onChange={(e) => handleChange('attractionStrength', Number(e.target.value))}
+                min="1"
+                max="8"
+                step="1"
+                value={config.substeps}
+                onChange={(e) => handleChange('substeps', Number(e.target.value))}
                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
             />
-            <p className="text-xs text-gray-400">粒子聚集的强度</p>
+            <p className="text-xs text-gray-400">每个固定步长内的积分次数，越高越稳定</p>
+        </div>
+
+        {/* Projectiles */}
+        <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700 block">发射粒子</label>
+            <div className="space-y-1">
+                <div className="flex justify-between">
+                    <label className="text-xs font-medium text-gray-700">衰减速度</label>
+                    <span className="text-xs text-gray-500 font-mono">{config.projectileDecay}/s</span>
+                </div>
+                <input
+                    type="range"
+                    min="0"
+                    max="60"
+                    step="5"
+                    value={config.projectileDecay}
+                    onChange={(e) => handleChange('projectileDecay', Number(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+            </div>
+            <div className="space-y-1">
+                <div className="flex justify-between">
+                    <label className="text-xs font-medium text-gray-700">最长存在时间</label>
+                    <span className="text-xs text-gray-500 font-mono">{config.projectileLifetime > 0 ? `${config.projectileLifetime}s` : '不限'}</span>
+                </div>
+                <input
+                    type="range"
+                    min="0"
+                    max="15"
+                    step="0.5"
+                    value={config.projectileLifetime}
+                    onChange={(e) => handleChange('projectileLifetime', Number(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+            </div>
+            <div className="space-y-1">
+                <div className="flex justify-between">
+                    <label className="text-xs font-medium text-gray-700">回收速度阈值</label>
+                    <span className="text-xs text-gray-500 font-mono">{config.reabsorbSpeed}</span>
+                </div>
+                <input
+                    type="range"
+                    min="10"
+                    max="200"
+                    step="5"
+                    value={config.reabsorbSpeed}
+                    onChange={(e) => handleChange('reabsorbSpeed', Number(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+            </div>
+            <div className="space-y-1">
+                <div className="flex justify-between">
+                    <label className="text-xs font-medium text-gray-700">回收距离</label>
+                    <span className="text-xs text-gray-500 font-mono">{config.reabsorbDistance}</span>
+                </div>
+                <input
+                    type="range"
+                    min="15"
+                    max="80"
+                    step="1"
+                    value={config.reabsorbDistance}
+                    onChange={(e) => handleChange('reabsorbDistance', Number(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+            </div>
+            <p className="text-xs text-gray-400">发射出的粒子逐渐变淡消失；足够慢且靠近身体时会被重新吸收</p>
         </div>
 
-        {/* Repulsion */}
+        {/* Shedding */}
+        <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700 block">受伤掉落粒子</label>
+            <div className="flex gap-2">
+                {(['none', 'perHit', 'proportional'] as const).map((mode) => (
+                    <button
+                        key={mode}
+                        onClick={() => onChange({...config, shedMode: mode})}
+                        className={`flex-1 py-1.5 text-xs font-medium rounded transition-all ${
+                            config.shedMode === mode
+                            ? 'bg-emerald-500 text-white shadow-md'
+                            : 'bg-white text-emerald-700 border border-emerald-200 hover:bg-emerald-100'
+                        }`}
+                    >
+                        {shedLabels[mode]}
+                    </button>
+                ))}
+            </div>
+            {config.shedMode === 'perHit' && (
+                <div className="flex items-center gap-3">
+                    <input
+                        type="range"
+                        min="1"
+                        max="10"
+                        step="1"
+                        value={config.shedPerHit}
+                        onChange={(e) => handleChange('shedPerHit', Number(e.target.value))}
+                        className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                    />
+                    <span className="text-sm text-gray-500 font-mono w-6 text-right">{config.shedPerHit}</span>
+                </div>
+            )}
+            <p className="text-xs text-gray-400">{shedHints[config.shedMode]}</p>
+        </div>
+
+        {/* Growth */}
         <div className="space-y-2">
             <div className="flex justify-between">
-                <label className="text-sm font-medium text-gray-700">排斥力（压力）</label>
-                <span className="text-sm text-gray-500 font-mono">{config.repulsionStrength}</span>
+                <label className="text-sm font-medium text-gray-700">成长上限</label>
+                <span className="text-sm text-gray-500 font-mono">{config.maxSlimeParticles}</span>
             </div>
             <input
                 type="range"
-                min="100"
+                min="10"
                 max="2000"
-                step="100"
-                value={config.repulsionStrength}
-                onChange={(e) => handleChange('repulsionStrength', Number(e.target.value))}
+                step="10"
+                value={config.maxSlimeParticles}
+                onChange={(e) => handleChange('maxSlimeParticles', Number(e.target.value))}
                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
             />
-            <p className="text-xs text-gray-400">推开粒子以保持体积的力</p>
+            <p className="text-xs text-gray-400">吃到水滴会长出新粒子，每个史莱姆最多长到这么多粒子（含发射出去的）</p>
         </div>
 
-        {/* Gravity */}
         <div className="space-y-2">
             <div className="flex justify-between">
-                <label className="text-sm font-medium text-gray-700">重力</label>
-                <span className="text-sm text-gray-500 font-mono">{config.gravity}</span>
+                <label className="text-sm font-medium text-gray-700">附着力</label>
+                <span className="text-sm text-gray-500 font-mono">{config.adhesionForce}</span>
             </div>
             <input
                 type="range"
                 min="0"
-                max="1000"
+                max="2000"
                 step="50"
-                value={config.gravity}
-                onChange={(e) => handleChange('gravity', Number(e.target.value))}
+                value={config.adhesionForce}
+                onChange={(e) => handleChange('adhesionForce', Number(e.target.value))}
                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
             />
+            <p className="text-xs text-gray-400">按住黏附键时贴着墙壁和天花板的粒子被吸住的力度，附着会消耗体力</p>
         </div>
 
          {/* Particle Count */}
@@ -143,7 +507,7 @@ export const Controls: React.FC<ControlsProps> = ({ config, audioConfig, onChang
             <input
                 type="range"
                 min="50"
-                max="300"
+                max="2000"
                 step="10"
                 value={config.particleCount}
                 onChange={(e) => handleChange('particleCount', Number(e.target.value))}
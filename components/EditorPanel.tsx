@@ -0,0 +1,248 @@
+import React from 'react';
+import { LevelDefinition, EnemyArchetypeId } from '../types';
+import { LevelEditorState, setEnemyArchetype } from '../services/levelEditor';
+import { ENEMY_ARCHETYPES, ENEMY_ARCHETYPE_IDS } from '../services/enemyArchetypes';
+import { DEFAULT_LEVEL_BACKGROUND } from '../services/level';
+import { PLATFORM_COLOR, DEFAULT_ENEMY_ATTACKS } from '../constants';
+
+interface FieldProps<T> {
+  label: string;
+  value: T;
+  onChange: (value: T) => void;
+}
+
+const inputClass = 'w-24 px-2 py-1 text-xs font-mono border border-gray-200 rounded focus:outline-none focus:border-emerald-400';
+
+const NumberField: React.FC<FieldProps<number> & { step?: number; min?: number; max?: number }> = ({ label, value, onChange, step = 1, min, max }) => (
+  <label className="flex justify-between items-center gap-2">
+    <span className="text-xs text-gray-600">{label}</span>
+    <input
+      type="number"
+      value={value}
+      step={step}
+      min={min}
+      max={max}
+      onChange={(e) => {
+        const n = Number(e.target.value);
+        if (e.target.value !== '' && Number.isFinite(n)) onChange(n);
+      }}
+      className={inputClass}
+    />
+  </label>
+);
+
+const TextField: React.FC<FieldProps<string>> = ({ label, value, onChange }) => (
+  <label className="flex justify-between items-center gap-2">
+    <span className="text-xs text-gray-600">{label}</span>
+    <input type="text" value={value} onChange={(e) => onChange(e.target.value)} className={`${inputClass} w-36 font-sans`} />
+  </label>
+);
+
+const ColorField: React.FC<FieldProps<string>> = ({ label, value, onChange }) => (
+  <label className="flex justify-between items-center gap-2">
+    <span className="text-xs text-gray-600">{label}</span>
+    <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="w-10 h-6 border border-gray-200 rounded cursor-pointer" />
+  </label>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="space-y-2 pb-4 border-b border-gray-100">
+    <h4 className="text-xs font-bold text-emerald-800 uppercase tracking-wide">{title}</h4>
+    {children}
+  </div>
+);
+
+const shapeLabels = { box: '方块', segment: '线段', polygon: '多边形' };
+const attackLabels = { shoot: '射击', pound: '震地', charge: '冲撞' };
+
+interface EditorPanelProps {
+  editor: LevelEditorState;
+}
+
+export const EditorPanel: React.FC<EditorPanelProps> = ({ editor }) => {
+  const { level, selection } = editor;
+
+  // Typing into one field merges into a single undo step
+  const edit = (key: string, mutate: (level: LevelDefinition) => void) => editor.apply(mutate, key);
+
+  const renderSelection = () => {
+    if (!selection) {
+      return <p className="text-xs text-gray-400">点击画布中的对象以编辑属性</p>;
+    }
+
+    switch (selection.kind) {
+      case 'spawn':
+        return (
+          <Section title="出生点">
+            <NumberField label="X" value={level.spawn.x} onChange={v => edit('spawn.x', l => { l.spawn.x = v; })} />
+            <NumberField label="Y" value={level.spawn.y} onChange={v => edit('spawn.y', l => { l.spawn.y = v; })} />
+            <NumberField label="粒子数" value={level.spawn.particleCount} min={3} onChange={v => edit('spawn.count', l => { l.spawn.particleCount = Math.round(v); })} />
+          </Section>
+        );
+
+      case 'enemy':
+      case 'patrolPoint': {
+        const i = selection.index;
+        const enemy = level.enemies[i];
+        const key = `enemies[${i}]`;
+        return (
+          <>
+            <Section title={`敌人 #${i + 1}`}>
+              <label className="flex justify-between items-center gap-2">
+                <span className="text-xs text-gray-600">种类</span>
+                <select
+                  value={enemy.archetype}
+                  onChange={(e) => editor.apply(l => { setEnemyArchetype(l.enemies[i], e.target.value as EnemyArchetypeId); })}
+                  className={`${inputClass} w-36 font-sans`}
+                >
+                  {ENEMY_ARCHETYPE_IDS.map(id => (
+                    <option key={id} value={id}>{ENEMY_ARCHETYPES[id].name}</option>
+                  ))}
+                </select>
+              </label>
+              <NumberField label="速度" value={enemy.speed} min={0} onChange={v => edit(`${key}.speed`, l => { l.enemies[i].speed = v; })} />
+              <NumberField label="生命值" value={enemy.health} min={1} onChange={v => edit(`${key}.health`, l => { l.enemies[i].health = v; })} />
+              <NumberField label="尺寸" value={enemy.size} min={4} onChange={v => edit(`${key}.size`, l => { l.enemies[i].size = v; })} />
+              <NumberField label="伤害" value={enemy.damage} min={0} onChange={v => edit(`${key}.damage`, l => { l.enemies[i].damage = v; })} />
+              <NumberField label="质量" value={enemy.mass} min={0.1} onChange={v => edit(`${key}.mass`, l => { l.enemies[i].mass = v; })} />
+              <ColorField label="颜色" value={enemy.color} onChange={v => edit(`${key}.color`, l => { l.enemies[i].color = v; })} />
+            </Section>
+            <Section title="行为">
+              <label className="flex justify-between items-center gap-2">
+                <span className="text-xs text-gray-600">默认状态</span>
+                <select
+                  value={enemy.behavior.initialState}
+                  onChange={(e) => editor.apply(l => { l.enemies[i].behavior.initialState = e.target.value === 'idle' ? 'idle' : 'patrol'; })}
+                  className={`${inputClass} font-sans`}
+                >
+                  <option value="patrol">巡逻</option>
+                  <option value="idle">原地待命</option>
+                </select>
+              </label>
+              <NumberField label="视野" value={enemy.behavior.sightRange} min={0} step={10} onChange={v => edit(`${key}.sightRange`, l => { l.enemies[i].behavior.sightRange = v; })} />
+              <NumberField label="追击速度" value={enemy.behavior.chaseSpeed} min={0} onChange={v => edit(`${key}.chaseSpeed`, l => { l.enemies[i].behavior.chaseSpeed = v; })} />
+              <NumberField label="逃跑血量比" value={enemy.behavior.fleeBelow} min={0} max={1} step={0.05} onChange={v => edit(`${key}.fleeBelow`, l => { l.enemies[i].behavior.fleeBelow = v; })} />
+              <NumberField label="逃跑速度" value={enemy.behavior.fleeSpeed} min={0} onChange={v => edit(`${key}.fleeSpeed`, l => { l.enemies[i].behavior.fleeSpeed = v; })} />
+              <NumberField label="跳跃间隔" value={enemy.behavior.jumpInterval} min={0} step={0.5} onChange={v => edit(`${key}.jumpInterval`, l => { l.enemies[i].behavior.jumpInterval = v; })} />
+              <NumberField label="跳跃高度" value={enemy.behavior.jumpHeight} min={0} step={5} onChange={v => edit(`${key}.jumpHeight`, l => { l.enemies[i].behavior.jumpHeight = v; })} />
+              <NumberField label="停留时间" value={enemy.behavior.idleTime} min={0} step={0.1} onChange={v => edit(`${key}.idleTime`, l => { l.enemies[i].behavior.idleTime = v; })} />
+              <p className="text-xs text-gray-400">视野、逃跑血量比或跳跃间隔为 0 时不使用对应状态</p>
+            </Section>
+            <Section title="攻击">
+              <label className="flex justify-between items-center gap-2">
+                <span className="text-xs text-gray-600">方式</span>
+                <select
+                  value={enemy.attack?.kind ?? 'none'}
+                  onChange={(e) => editor.apply(l => {
+                    const kind = e.target.value;
+                    l.enemies[i].attack = kind === 'shoot' || kind === 'pound' || kind === 'charge' ? { ...DEFAULT_ENEMY_ATTACKS[kind] } : null;
+                  })}
+                  className={`${inputClass} font-sans`}
+                >
+                  <option value="none">无</option>
+                  {(['shoot', 'pound', 'charge'] as const).map(kind => (
+                    <option key={kind} value={kind}>{attackLabels[kind]}</option>
+                  ))}
+                </select>
+              </label>
+              {enemy.attack && (
+                <>
+                  <NumberField label="触发距离" value={enemy.attack.range} min={0} step={10} onChange={v => edit(`${key}.attackRange`, l => { l.enemies[i].attack!.range = v; })} />
+                  <NumberField label="冷却" value={enemy.attack.cooldown} min={0.1} step={0.5} onChange={v => edit(`${key}.attackCooldown`, l => { l.enemies[i].attack!.cooldown = v; })} />
+                  <NumberField label="蓄势时间" value={enemy.attack.windup} min={0} step={0.1} onChange={v => edit(`${key}.attackWindup`, l => { l.enemies[i].attack!.windup = v; })} />
+                  <NumberField label="攻击伤害" value={enemy.attack.damage} min={0} onChange={v => edit(`${key}.attackDamage`, l => { l.enemies[i].attack!.damage = v; })} />
+                  <NumberField label="攻击速度" value={enemy.attack.speed} min={1} step={10} onChange={v => edit(`${key}.attackSpeed`, l => { l.enemies[i].attack!.speed = v; })} />
+                </>
+              )}
+            </Section>
+            <Section title="巡逻点">
+              {enemy.patrolPoints.map((p, j) => (
+                <div
+                  key={j}
+                  onClick={() => editor.select({ kind: 'patrolPoint', index: i, point: j })}
+                  className={`flex items-center gap-2 text-xs font-mono px-2 py-1 rounded cursor-pointer ${
+                    selection.kind === 'patrolPoint' && selection.point === j ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="flex-1">{j + 1}. ({p.x}, {p.y})</span>
+                  {enemy.patrolPoints.length > 1 && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        editor.apply(l => { l.enemies[i].patrolPoints.splice(j, 1); });
+                        editor.select({ kind: 'enemy', index: i });
+                      }}
+                      className="text-gray-400 hover:text-red-500"
+                      title="删除巡逻点"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                onClick={() => {
+                  const last = enemy.patrolPoints[enemy.patrolPoints.length - 1];
+                  editor.apply(l => { l.enemies[i].patrolPoints.push({ x: last.x + 60, y: last.y }); });
+                  editor.select({ kind: 'patrolPoint', index: i, point: enemy.patrolPoints.length });
+                }}
+                className="w-full text-xs text-emerald-600 hover:bg-emerald-50 font-semibold py-1 rounded transition-colors"
+              >
+                + 添加巡逻点
+              </button>
+            </Section>
+            <button
+              onClick={() => {
+                editor.select({ kind: 'enemy', index: i });
+                editor.deleteSelection();
+              }}
+              className="w-full text-xs text-red-600 hover:bg-red-50 font-semibold py-1.5 rounded transition-colors"
+            >
+              删除敌人
+            </button>
+          </>
+        );
+      }
+
+      case 'platform': {
+        const i = selection.index;
+        const platform = level.platforms[i];
+        const key = `platforms[${i}]`;
+        return (
+          <>
+            <Section title={`平台 #${i + 1} · ${shapeLabels[platform.shape.kind]}`}>
+              <NumberField label="摩擦" value={platform.friction} step={0.05} min={0} max={1} onChange={v => edit(`${key}.friction`, l => { l.platforms[i].friction = v; })} />
+              <NumberField label="弹性" value={platform.restitution} step={0.05} min={0} max={1} onChange={v => edit(`${key}.restitution`, l => { l.platforms[i].restitution = v; })} />
+              <ColorField label="颜色" value={platform.color ?? PLATFORM_COLOR} onChange={v => edit(`${key}.color`, l => { l.platforms[i].color = v; })} />
+            </Section>
+            <button onClick={() => editor.deleteSelection()} className="w-full text-xs text-red-600 hover:bg-red-50 font-semibold py-1.5 rounded transition-colors">
+              删除平台
+            </button>
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="w-72 shrink-0 bg-white border-l border-gray-200 overflow-y-auto p-4 space-y-4">
+      <Section title="关卡">
+        <TextField label="名称" value={level.name} onChange={v => edit('name', l => { l.name = v; })} />
+        <NumberField label="宽度" value={level.world.width} min={100} step={10} onChange={v => edit('world.width', l => { l.world.width = v; })} />
+        <NumberField label="高度" value={level.world.height} min={100} step={10} onChange={v => edit('world.height', l => { l.world.height = v; })} />
+        <ColorField label="背景色" value={level.background.color} onChange={v => edit('background.color', l => { l.background.color = v; })} />
+        <label className="flex justify-between items-center gap-2">
+          <span className="text-xs text-gray-600">网格</span>
+          <input
+            type="checkbox"
+            checked={level.background.gridColor !== null}
+            onChange={(e) => editor.apply(l => { l.background.gridColor = e.target.checked ? DEFAULT_LEVEL_BACKGROUND.gridColor : null; })}
+            className="accent-emerald-500"
+          />
+        </label>
+      </Section>
+
+      {renderSelection()}
+    </div>
+  );
+};
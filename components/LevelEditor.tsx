@@ -0,0 +1,424 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { LevelDefinition, Vector2, PlatformShape } from '../types';
+import { LevelEditorState, EditorSelection, createEnemy } from '../services/levelEditor';
+import { validateLevel, parseLevel, downloadLevel } from '../services/level';
+import { shapePoints } from '../services/collision';
+import { drawPlatform, drawEnemyBody, drawPickup, drawDroplet } from './SimulationCanvas';
+import { EditorPanel } from './EditorPanel';
+
+export type EditorTool = 'select' | 'spawn' | 'enemy' | 'box' | 'segment' | 'polygon';
+
+// In-progress platform drawing
+type Draft =
+  | { kind: 'box' | 'segment'; start: Vector2; end: Vector2 }
+  | { kind: 'polygon'; points: Vector2[]; cursor: Vector2 | null };
+
+const TOOLS: { tool: EditorTool; label: string; hint: string }[] = [
+  { tool: 'select', label: '选择', hint: '点击选中，拖动移动，Delete 删除' },
+  { tool: 'spawn', label: '出生点', hint: '点击放置史莱姆出生点' },
+  { tool: 'enemy', label: '敌人', hint: '点击放置敌人，拖动巡逻点调整路线' },
+  { tool: 'box', label: '方块', hint: '拖动绘制方块平台' },
+  { tool: 'segment', label: '线段', hint: '拖动绘制线段平台' },
+  { tool: 'polygon', label: '多边形', hint: '依次点击顶点，点击起点或按 Enter 完成，Esc 取消' }
+];
+
+const SELECTION_COLOR = '#2563eb'; // Tailwind blue-600
+const CLOSE_POLYGON_RADIUS = 10;
+
+function roundPoint(p: Vector2): Vector2 {
+  return { x: Math.round(p.x), y: Math.round(p.y) };
+}
+
+function isSelected(selection: EditorSelection | null, kind: EditorSelection['kind'], index?: number): boolean {
+  return !!selection && selection.kind === kind && (index === undefined || (selection as { index: number }).index === index);
+}
+
+function outlineShape(ctx: CanvasRenderingContext2D, shape: PlatformShape) {
+  const points = shapePoints(shape);
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  for (const p of points.slice(1)) {
+    ctx.lineTo(p.x, p.y);
+  }
+  if (shape.kind !== 'segment') ctx.closePath();
+  ctx.stroke();
+}
+
+function drawEditor(ctx: CanvasRenderingContext2D, level: LevelDefinition, selection: EditorSelection | null, draft: Draft | null) {
+  const { width, height } = level.world;
+
+  // Background and grid, as in the game
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = level.background.color;
+  ctx.fillRect(0, 0, width, height);
+  if (level.background.gridColor) {
+    ctx.strokeStyle = level.background.gridColor;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = 0; x < width; x += 40) { ctx.moveTo(x, 0); ctx.lineTo(x, height); }
+    for (let y = 0; y < height; y += 40) { ctx.moveTo(0, y); ctx.lineTo(width, y); }
+    ctx.stroke();
+  }
+  ctx.fillStyle = '#9ca3af';
+  ctx.fillRect(0, height - 4, width, 4);
+
+  // Platforms
+  level.platforms.forEach((platform, i) => {
+    drawPlatform(ctx, platform);
+    if (isSelected(selection, 'platform', i)) {
+      ctx.strokeStyle = SELECTION_COLOR;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      outlineShape(ctx, platform.shape);
+      ctx.setLineDash([]);
+    }
+  });
+
+  // Material pickups and droplets (kept from imported files; the editor does not place them)
+  for (const pickup of level.pickups) {
+    drawPickup(ctx, pickup);
+  }
+  for (const droplet of level.droplets) {
+    drawDroplet(ctx, droplet);
+  }
+
+  // Enemies with their patrol loops
+  level.enemies.forEach((enemy, i) => {
+    const selected = isSelected(selection, 'enemy', i) || isSelected(selection, 'patrolPoint', i);
+    const points = enemy.patrolPoints;
+
+    ctx.strokeStyle = selected ? SELECTION_COLOR : enemy.color;
+    ctx.globalAlpha = selected ? 1 : 0.5;
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    for (const p of points.slice(1)) {
+      ctx.lineTo(p.x, p.y);
+    }
+    if (points.length > 2) ctx.closePath();
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    points.forEach((p, j) => {
+      const pointSelected = selection?.kind === 'patrolPoint' && selection.index === i && selection.point === j;
+      ctx.fillStyle = pointSelected ? SELECTION_COLOR : '#ffffff';
+      ctx.strokeStyle = selected ? SELECTION_COLOR : enemy.color;
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, 6, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = '#374151';
+      ctx.font = '10px monospace';
+      ctx.fillText(String(j + 1), p.x + 8, p.y - 8);
+    });
+    ctx.globalAlpha = 1;
+
+    const half = enemy.size / 2;
+    drawEnemyBody(ctx, enemy.archetype, points[0], enemy.size, enemy.color);
+    if (isSelected(selection, 'enemy', i)) {
+      ctx.strokeStyle = SELECTION_COLOR;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(points[0].x - half - 3, points[0].y - half - 3, enemy.size + 6, enemy.size + 6);
+    }
+  });
+
+  // Slime spawn marker (the dashed ring is the spawn cluster's radius)
+  const { spawn } = level;
+  ctx.strokeStyle = isSelected(selection, 'spawn') ? SELECTION_COLOR : '#10b981';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([6, 4]);
+  ctx.beginPath();
+  ctx.arc(spawn.x, spawn.y, 80, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.fillStyle = '#10b981';
+  ctx.beginPath();
+  ctx.arc(spawn.x, spawn.y, 12, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(spawn.x - 6, spawn.y - 4, 3, 3);
+  ctx.fillRect(spawn.x + 3, spawn.y - 4, 3, 3);
+
+  // Platform being drawn
+  if (draft) {
+    ctx.strokeStyle = SELECTION_COLOR;
+    ctx.fillStyle = 'rgba(37, 99, 235, 0.15)';
+    ctx.lineWidth = 2;
+    if (draft.kind === 'box') {
+      const x = Math.min(draft.start.x, draft.end.x);
+      const y = Math.min(draft.start.y, draft.end.y);
+      ctx.fillRect(x, y, Math.abs(draft.end.x - draft.start.x), Math.abs(draft.end.y - draft.start.y));
+      ctx.strokeRect(x, y, Math.abs(draft.end.x - draft.start.x), Math.abs(draft.end.y - draft.start.y));
+    } else if (draft.kind === 'segment') {
+      ctx.beginPath();
+      ctx.moveTo(draft.start.x, draft.start.y);
+      ctx.lineTo(draft.end.x, draft.end.y);
+      ctx.stroke();
+    } else if (draft.kind === 'polygon' && draft.points.length > 0) {
+      ctx.beginPath();
+      ctx.moveTo(draft.points[0].x, draft.points[0].y);
+      for (const p of draft.points.slice(1)) {
+        ctx.lineTo(p.x, p.y);
+      }
+      if (draft.cursor) ctx.lineTo(draft.cursor.x, draft.cursor.y);
+      ctx.stroke();
+      for (const p of draft.points) {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 4, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      }
+    }
+  }
+}
+
+interface LevelEditorProps {
+  editor: LevelEditorState;
+  onTestPlay: (level: LevelDefinition) => void;
+  onExit: () => void;
+}
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({ editor, onTestPlay, onExit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<Vector2 | null>(null); // Last pointer position while dragging a selection
+  const [, setRevision] = useState(0);
+  const [tool, setTool] = useState<EditorTool>('select');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-render whenever the editor state changes
+  useEffect(() => {
+    editor.onChange = () => setRevision(r => r + 1);
+    return () => { editor.onChange = undefined; };
+  }, [editor]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawEditor(ctx, editor.level, editor.selection, draft);
+  });
+
+  const toWorld = (e: React.MouseEvent): Vector2 => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return roundPoint({
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height)
+    });
+  };
+
+  const addPlatform = (shape: PlatformShape) => {
+    editor.apply(level => {
+      level.platforms.push({ shape, friction: 0.1, restitution: 0.3 });
+    });
+    editor.select({ kind: 'platform', index: editor.level.platforms.length - 1 });
+  };
+
+  const finishPolygon = () => {
+    if (draft?.kind === 'polygon' && draft.points.length >= 3) {
+      addPlatform({ kind: 'polygon', points: draft.points });
+    }
+    setDraft(null);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const pos = toWorld(e);
+    setError(null);
+
+    switch (tool) {
+      case 'select': {
+        const hit = editor.hitTest(pos);
+        editor.select(hit);
+        if (hit) {
+          dragRef.current = pos;
+          editor.beginDrag();
+        }
+        break;
+      }
+      case 'spawn':
+        editor.apply(level => {
+          level.spawn.x = pos.x;
+          level.spawn.y = pos.y;
+        });
+        editor.select({ kind: 'spawn' });
+        break;
+      case 'enemy':
+        editor.apply(level => {
+          level.enemies.push(createEnemy(pos));
+        });
+        editor.select({ kind: 'enemy', index: editor.level.enemies.length - 1 });
+        break;
+      case 'box':
+      case 'segment':
+        setDraft({ kind: tool, start: pos, end: pos });
+        break;
+      case 'polygon': {
+        const points = draft?.kind === 'polygon' ? draft.points : [];
+        const first = points[0];
+        if (first && points.length >= 3 && Math.hypot(pos.x - first.x, pos.y - first.y) <= CLOSE_POLYGON_RADIUS) {
+          finishPolygon();
+        } else {
+          setDraft({ kind: 'polygon', points: [...points, pos], cursor: pos });
+        }
+        break;
+      }
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const pos = toWorld(e);
+    if (dragRef.current) {
+      editor.moveSelection(pos.x - dragRef.current.x, pos.y - dragRef.current.y);
+      dragRef.current = pos;
+    } else if (draft?.kind === 'polygon') {
+      setDraft({ ...draft, cursor: pos });
+    } else if (draft) {
+      setDraft({ ...draft, end: pos });
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (dragRef.current) {
+      dragRef.current = null;
+      editor.endDrag();
+    }
+    if (draft?.kind === 'box') {
+      const min = { x: Math.min(draft.start.x, draft.end.x), y: Math.min(draft.start.y, draft.end.y) };
+      const max = { x: Math.max(draft.start.x, draft.end.x), y: Math.max(draft.start.y, draft.end.y) };
+      if (max.x - min.x >= 4 && max.y - min.y >= 4) addPlatform({ kind: 'box', min, max });
+      setDraft(null);
+    } else if (draft?.kind === 'segment') {
+      if (Math.hypot(draft.end.x - draft.start.x, draft.end.y - draft.start.y) >= 4) {
+        addPlatform({ kind: 'segment', a: draft.start, b: draft.end });
+      }
+      setDraft(null);
+    }
+  };
+
+  const changeTool = (next: EditorTool) => {
+    setTool(next);
+    setDraft(null);
+  };
+
+  // Only hand over levels that would load in the game
+  const validated = (): LevelDefinition | null => {
+    try {
+      return validateLevel(editor.level);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  };
+
+  const testPlay = () => {
+    const level = validated();
+    if (level) onTestPlay(level);
+  };
+
+  const exportLevel = () => {
+    const level = validated();
+    if (level) downloadLevel(level);
+  };
+
+  const importLevel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      editor.load(parseLevel(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Undo/redo, delete, and finishing or cancelling a polygon
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      const mod = e.ctrlKey || e.metaKey;
+      if (mod && e.code === 'KeyZ') {
+        e.preventDefault();
+        if (e.shiftKey) editor.redo(); else editor.undo();
+      } else if (mod && e.code === 'KeyY') {
+        e.preventDefault();
+        editor.redo();
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        editor.deleteSelection();
+      } else if (e.key === 'Enter') {
+        finishPolygon();
+      } else if (e.key === 'Escape') {
+        setDraft(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const toolButtonClass = (selected: boolean) =>
+    `px-3 py-1.5 text-xs font-semibold rounded transition-colors ${
+      selected ? 'bg-emerald-500 text-white shadow' : 'bg-white text-gray-700 border border-gray-200 hover:bg-emerald-50'
+    }`;
+
+  return (
+    <div className="absolute inset-0 bg-gray-100 flex">
+      <div className="flex-1 min-w-0 flex flex-col">
+        {/* 工具栏 */}
+        <div className="flex items-center gap-2 px-4 py-2 bg-white border-b border-gray-200 shrink-0">
+          {TOOLS.map(({ tool: t, label }) => (
+            <button key={t} onClick={() => changeTool(t)} className={toolButtonClass(tool === t)}>
+              {label}
+            </button>
+          ))}
+          <div className="w-px h-6 bg-gray-200 mx-1" />
+          <button onClick={() => editor.undo()} disabled={!editor.canUndo} className={`${toolButtonClass(false)} disabled:opacity-40`} title="撤销 (Ctrl+Z)">
+            ↶ 撤销
+          </button>
+          <button onClick={() => editor.redo()} disabled={!editor.canRedo} className={`${toolButtonClass(false)} disabled:opacity-40`} title="重做 (Ctrl+Shift+Z)">
+            ↷ 重做
+          </button>
+          <div className="flex-1" />
+          <button onClick={() => fileInputRef.current?.click()} className={toolButtonClass(false)}>导入</button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={importLevel} />
+          <button onClick={exportLevel} className={toolButtonClass(false)}>导出</button>
+          <button onClick={testPlay} className="px-3 py-1.5 text-xs font-semibold rounded bg-emerald-500 hover:bg-emerald-600 text-white shadow transition-colors">
+            ▶ 试玩
+          </button>
+          <button onClick={onExit} className="px-3 py-1.5 text-xs font-semibold rounded bg-gray-700 hover:bg-gray-600 text-white transition-colors">
+            返回菜单
+          </button>
+        </div>
+
+        <div className="px-4 py-1 text-xs text-gray-500 shrink-0">
+          {TOOLS.find(t => t.tool === tool)?.hint}
+        </div>
+
+        {/* 画布 */}
+        <div className="flex-1 min-h-0 relative">
+          <canvas
+            ref={canvasRef}
+            width={editor.level.world.width}
+            height={editor.level.world.height}
+            className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 max-w-full max-h-full shadow-lg bg-white cursor-crosshair"
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+          />
+        </div>
+
+        {error && (
+          <pre className="mx-4 mb-4 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 max-h-32 overflow-y-auto whitespace-pre-wrap shrink-0">
+            {error}
+          </pre>
+        )}
+      </div>
+
+      <EditorPanel editor={editor} />
+    </div>
+  );
+};
@@ -1,11 +1,45 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
+import { LevelDefinition } from '../types';
+import { MAX_PLAYERS } from '../constants';
+import { BUILTIN_LEVELS } from '../levels';
+import { parseLevel } from '../services/level';
 
 interface MainMenuProps {
   onSettings: () => void;
   onResume: () => void;
+  onEditor: () => void;
+  level: LevelDefinition | null;
+  onSelectLevel: (level: LevelDefinition | null) => void;
+  players: number;
+  onPlayersChange: (players: number) => void;
 }
 
-export const MainMenu: React.FC<MainMenuProps> = ({ onSettings, onResume }) => {
+export const MainMenu: React.FC<MainMenuProps> = ({ onSettings, onResume, onEditor, level, onSelectLevel, players, onPlayersChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [levelError, setLevelError] = useState<string | null>(null);
+
+  const selectLevel = (next: LevelDefinition | null) => {
+    setLevelError(null);
+    onSelectLevel(next);
+  };
+
+  const importLevel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      selectLevel(parseLevel(await file.text()));
+    } catch (err) {
+      setLevelError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const levelButtonClass = (selected: boolean) =>
+    `px-3 py-2 rounded-lg text-sm font-semibold transition-colors ${
+      selected ? 'bg-emerald-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+    }`;
+
   return (
     <div className="absolute inset-0 bg-black/70 backdrop-blur-md flex items-center justify-center">
       <div className="text-center">
@@ -43,13 +77,78 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onSettings, onResume }) => {
             </svg>
             设置
           </button>
+
+          <button
+            onClick={onEditor}
+            className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-4 px-8 rounded-xl shadow-lg transition-all transform hover:scale-105 flex items-center justify-center gap-3"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+            关卡编辑器
+          </button>
+        </div>
+
+        {/* 人数选择 */}
+        <div className="mt-8 max-w-md mx-auto">
+          <p className="text-gray-300 text-sm font-semibold mb-3">玩家</p>
+          <div className="flex justify-center gap-2">
+            {Array.from({ length: MAX_PLAYERS }, (_, i) => i + 1).map(count => (
+              <button key={count} onClick={() => onPlayersChange(count)} className={levelButtonClass(players === count)}>
+                {count === 1 ? '单人' : `${count}人合作`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* 关卡选择 */}
+        <div className="mt-8 max-w-md mx-auto">
+          <p className="text-gray-300 text-sm font-semibold mb-3">关卡</p>
+          <div className="flex flex-wrap justify-center gap-2">
+            <button onClick={() => selectLevel(null)} className={levelButtonClass(level === null)}>
+              经典（随机）
+            </button>
+            {BUILTIN_LEVELS.map(builtin => (
+              <button key={builtin.name} onClick={() => selectLevel(builtin)} className={levelButtonClass(level === builtin)}>
+                {builtin.name}
+              </button>
+            ))}
+            {level && !BUILTIN_LEVELS.includes(level) && (
+              <button className={levelButtonClass(true)}>{level.name}</button>
+            )}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-2 rounded-lg text-sm font-semibold bg-gray-800 hover:bg-gray-700 text-gray-300 border border-dashed border-gray-500 transition-colors"
+            >
+              导入关卡文件
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={importLevel} />
+          </div>
+          {levelError && (
+            <pre className="mt-3 text-left text-xs text-red-300 bg-red-950/60 rounded-lg p-3 max-h-40 overflow-y-auto whitespace-pre-wrap">
+              {levelError}
+            </pre>
+          )}
         </div>
 
         {/* 操作提示 */}
         <div className="mt-12 text-gray-400 text-sm space-y-2">
+          {players > 1 && <p className="text-gray-300 font-semibold">玩家1</p>}
           <p>按 <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">A</kbd> / <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">D</kbd> 移动</p>
           <p>按 <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">空格</kbd> 跳跃</p>
+          <p>按住 <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">S</kbd> 黏在墙壁和天花板上，朝墙移动即可向上爬</p>
           <p>按住鼠标左键蓄力，释放发射粒子</p>
+          <p>分裂后按 <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">Q</kbd> 切换操控的碎片</p>
+          {players > 1 && (
+            <>
+              <p className="text-gray-300 font-semibold pt-2">玩家2</p>
+              <p>按 <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">←</kbd> / <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">→</kbd> 移动</p>
+              <p>按 <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">Enter</kbd> 跳跃</p>
+              <p>按住右 <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">Ctrl</kbd> 黏在墙壁和天花板上</p>
+              <p>按 <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">↑</kbd> / <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">↓</kbd> 调整角度，按住右 <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">Shift</kbd> 蓄力，释放发射粒子</p>
+              <p>分裂后按 <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">/</kbd> 切换操控的碎片</p>
+            </>
+          )}
           <p>按 <kbd className="px-2 py-1 bg-gray-700 rounded font-mono">ESC</kbd> 切换菜单</p>
         </div>
       </div>
@@ -0,0 +1,126 @@
+import React, { useRef } from 'react';
+import { TIME_STEP } from '../constants';
+import { ReplayMode } from '../services/replay';
+
+interface ReplayControlsProps {
+  mode: ReplayMode;
+  tick: number;
+  tickCount: number;
+  isPlaybackPaused: boolean;
+  error: string | null;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onLoadReplay: (text: string) => void;
+  onTogglePlayback: () => void;
+  onSeek: (tick: number) => void;
+  onExitPlayback: () => void;
+}
+
+const formatTime = (ticks: number) => {
+  const seconds = ticks * TIME_STEP;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({
+  mode,
+  tick,
+  tickCount,
+  isPlaybackPaused,
+  error,
+  onStartRecording,
+  onStopRecording,
+  onLoadReplay,
+  onTogglePlayback,
+  onSeek,
+  onExitPlayback
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(onLoadReplay);
+    // Allow loading the same file again
+    e.target.value = '';
+  };
+
+  const buttonClass = 'px-3 py-1 rounded-full text-xs font-semibold transition-colors';
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 pointer-events-auto">
+      <div className="bg-gray-800/80 backdrop-blur-sm rounded-full px-4 py-2 shadow-lg flex items-center gap-2">
+        {mode === 'live' && (
+          <>
+            <button
+              onClick={onStartRecording}
+              className={`${buttonClass} bg-red-500 hover:bg-red-600 text-white`}
+              title="从当前种子重新开始并录制输入"
+            >
+              ● 录制
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className={`${buttonClass} bg-white/20 hover:bg-white/30 text-white`}
+            >
+              加载回放
+            </button>
+          </>
+        )}
+
+        {mode === 'recording' && (
+          <>
+            <span className="text-red-400 text-xs font-bold animate-pulse">● REC</span>
+            <span className="text-white text-xs font-mono w-14 text-center">{formatTime(tick)}</span>
+            <button
+              onClick={onStopRecording}
+              className={`${buttonClass} bg-white/20 hover:bg-white/30 text-white`}
+              title="停止录制并保存回放文件"
+            >
+              ■ 停止并保存
+            </button>
+          </>
+        )}
+
+        {mode === 'playback' && (
+          <>
+            <button
+              onClick={onTogglePlayback}
+              className={`${buttonClass} bg-emerald-500 hover:bg-emerald-600 text-white w-16`}
+            >
+              {isPlaybackPaused ? '▶ 播放' : '❚❚ 暂停'}
+            </button>
+            <input
+              type="range"
+              min="0"
+              max={tickCount}
+              step="1"
+              value={tick}
+              onChange={(e) => onSeek(Number(e.target.value))}
+              className="w-64 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+            <span className="text-white text-xs font-mono w-24 text-center">
+              {formatTime(tick)} / {formatTime(tickCount)}
+            </span>
+            <button
+              onClick={onExitPlayback}
+              className={`${buttonClass} bg-white/20 hover:bg-white/30 text-white`}
+            >
+              退出回放
+            </button>
+          </>
+        )}
+
+        {error && <span className="text-red-400 text-xs font-semibold">{error}</span>}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+    </div>
+  );
+};
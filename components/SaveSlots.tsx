@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+
+interface SaveSlotsProps {
+  slots: { name: string; savedAt: number }[];
+  onSave: (name: string) => void;
+  onLoad: (name: string) => void;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+}
+
+export const SaveSlots: React.FC<SaveSlotsProps> = ({ slots, onSave, onLoad, onDelete, onClose }) => {
+  const [newName, setNewName] = useState('');
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onSave(name);
+    setNewName('');
+  };
+
+  return (
+    <div className="absolute top-20 right-4 w-72 bg-white/95 backdrop-blur-sm rounded-xl shadow-xl border border-emerald-100 pointer-events-auto">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-gray-100">
+        <h3 className="text-sm font-bold text-gray-800">存档</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 text-sm px-1"
+          title="关闭"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* New slot */}
+      <div className="flex gap-2 px-4 py-3 border-b border-gray-100">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="存档名称"
+          className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-200 rounded focus:outline-none focus:border-emerald-400"
+        />
+        <button
+          onClick={handleSave}
+          className="text-xs bg-emerald-500 hover:bg-emerald-600 text-white font-semibold px-3 py-1 rounded transition-colors"
+        >
+          保存
+        </button>
+      </div>
+
+      {/* Existing slots */}
+      <div className="max-h-64 overflow-y-auto">
+        {slots.length === 0 && (
+          <p className="text-xs text-gray-400 px-4 py-3">还没有存档</p>
+        )}
+        {slots.map(slot => (
+          <div key={slot.name} className="flex items-center gap-2 px-4 py-2 hover:bg-emerald-50">
+            <div className="flex-1 min-w-0">
+              <div className="text-xs font-semibold text-gray-700 truncate">{slot.name}</div>
+              <div className="text-[10px] text-gray-400">{new Date(slot.savedAt).toLocaleString()}</div>
+            </div>
+            <button
+              onClick={() => onSave(slot.name)}
+              className="text-xs text-emerald-600 hover:bg-emerald-100 px-2 py-1 rounded"
+              title="覆盖存档"
+            >
+              覆盖
+            </button>
+            <button
+              onClick={() => onLoad(slot.name)}
+              className="text-xs text-emerald-600 hover:bg-emerald-100 px-2 py-1 rounded"
+            >
+              读取
+            </button>
+            <button
+              onClick={() => onDelete(slot.name)}
+              className="text-xs text-red-500 hover:bg-red-50 px-2 py-1 rounded"
+            >
+              删除
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[10px] text-gray-400 px-4 py-2 border-t border-gray-100">
+        F5 快速存档 · F9 快速读档
+      </p>
+    </div>
+  );
+};
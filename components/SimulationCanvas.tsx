@@ -1,115 +1,792 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { PhysicsEngine, SoundEvent, GameStateEvent } from '../services/physicsEngine';
-import { SimulationConfig, AudioConfig, Vector2, KeyboardInput, GameState } from '../types';
-import { CANVAS_WIDTH, CANVAS_HEIGHT, TIME_STEP, SLIME_COLOR_BASE, MAX_HEALTH } from '../constants';
+import { SoundEvent, BossStatus, SlimeStatus } from '../services/physicsEngine';
+import { SimulationConfig, AudioConfig, Vector2, KeyboardInput, GameState, Platform, MaterialPickup, Droplet, LevelDefinition, EnemyArchetypeId } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, TIME_STEP, PLAYER_COLORS, MAX_HEALTH, MAX_STAMINA, PLATFORM_COLOR, ENEMY_COLOR, PICKUP_RADIUS, DROPLET_RADIUS, DROPLET_COLOR } from '../constants';
 import { audioService } from '../services/audioService';
+import { DEFAULT_LEVEL_BACKGROUND } from '../services/level';
+import { ReplayMode, downloadReplay } from '../services/replay';
+import { EngineHost, createEngineHost } from '../services/engineHost';
+import {
+  HostCommand,
+  HostEvent,
+  FrameData,
+  WorldInfo,
+  RenderParticle,
+  RenderFragment,
+  RenderEnemy,
+  RenderProjectile,
+  PARTICLE_STRIDE,
+  ENEMY_STRIDE,
+  PROJECTILE_STRIDE,
+  SPRING_STRIDE,
+  indexById,
+  decodeParticles,
+  decodeEnemies,
+  decodeProjectiles,
+  EnemyStyle
+} from '../services/engineProtocol';
+import { ENEMY_ARCHETYPES, enemyOutline } from '../services/enemyArchetypes';
+import { MATERIALS } from '../services/materials';
+import { ReplayControls } from './ReplayControls';
+import { SaveSlots } from './SaveSlots';
+import { QUICK_SAVE_SLOT, writeSaveSlot, readSaveSlot, deleteSaveSlot, listSaveSlots } from '../services/snapshot';
+
+const POP_DURATION = 300; // ms a puff lingers where a launched particle died
+const FALLBACK_ENEMY_STYLE: EnemyStyle = { color: ENEMY_COLOR, archetype: 'brute', attack: null };
+const ATTACK_COLOR = '#f97316'; // Tailwind orange-500, telegraphs and projectiles
+const VICTORY_BURST_DURATION = 1500; // ms of confetti where the boss fell
+const CONFETTI_COLORS = ['#10b981', '#f59e0b', '#3b82f6', '#ec4899', '#a855f7'];
+const FLASH_DURATION = 350; // ms of the flash where a material went off or was absorbed
+// Size and color of each material flash; absorbing takes the pickup's color
+const FLASH_STYLES: Record<'absorb' | 'explode' | 'zap' | 'grow', { radius: number; color: string }> = {
+  absorb: { radius: 30, color: '#ffffff' },
+  grow: { radius: 25, color: DROPLET_COLOR },
+  explode: { radius: 90, color: '#f97316' }, // The explosive material's blast radius
+  zap: { radius: 35, color: '#38bdf8' }
+};
+
+// Keys of each player's slime (KeyboardEvent.code). Player 1 aims and launches
+// with the mouse; player 2 raises and lowers an aim arrow and holds a key to charge.
+// `cycle` hands the controls to the player's next fragment.
+const PLAYER_KEYS: { left: string; right: string; jump: string; stick: string; cycle: string; aimUp?: string; aimDown?: string; launch?: string }[] = [
+  { left: 'KeyA', right: 'KeyD', jump: 'Space', stick: 'KeyS', cycle: 'KeyQ' },
+  { left: 'ArrowLeft', right: 'ArrowRight', jump: 'Enter', stick: 'ControlRight', cycle: 'Slash', aimUp: 'ArrowUp', aimDown: 'ArrowDown', launch: 'ShiftRight' }
+];
+const AIM_STEP = Math.PI / 24;         // Per key press (or key repeat)
+const AIM_MIN = -Math.PI / 3;          // Elevation limits, from horizontal
+const AIM_MAX = Math.PI / 2;
+const KEYBOARD_AIM_DISTANCE = 1000;    // Keyboard launches aim at a point this far along the arrow
+
+// Unit vector of a keyboard aim
+function aimDirection(aim: { facing: number; elevation: number }): Vector2 {
+  return { x: aim.facing * Math.cos(aim.elevation), y: -Math.sin(aim.elevation) };
+}
+
+// Average position of a player's in-body particles, or null when there are none
+function slimeCenter(particles: RenderParticle[], owner: number): Vector2 | null {
+  let x = 0, y = 0, count = 0;
+  for (const p of particles) {
+    if (p.owner !== owner || p.isEmitted) continue;
+    x += p.position.x;
+    y += p.position.y;
+    count++;
+  }
+  return count > 0 ? { x: x / count, y: y / count } : null;
+}
+
+// Draw one piece of level geometry (shared with the level editor)
+export function drawPlatform(ctx: CanvasRenderingContext2D, platform: Omit<Platform, 'id'>) {
+  const { shape } = platform;
+  const color = platform.color ?? PLATFORM_COLOR;
+
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  switch (shape.kind) {
+    case 'box':
+      ctx.fillRect(shape.min.x, shape.min.y, shape.max.x - shape.min.x, shape.max.y - shape.min.y);
+      break;
+    case 'segment':
+      ctx.lineWidth = 4;
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      ctx.moveTo(shape.a.x, shape.a.y);
+      ctx.lineTo(shape.b.x, shape.b.y);
+      ctx.stroke();
+      break;
+    case 'polygon':
+      if (shape.points.length < 3) break;
+      ctx.beginPath();
+      ctx.moveTo(shape.points[0].x, shape.points[0].y);
+      for (const point of shape.points.slice(1)) {
+        ctx.lineTo(point.x, point.y);
+      }
+      ctx.closePath();
+      ctx.fill();
+      break;
+  }
+  ctx.restore();
+}
+
+// Draw an enemy's body and face for its archetype (shared with the level editor)
+export function drawEnemyBody(ctx: CanvasRenderingContext2D, archetype: EnemyArchetypeId, position: Vector2, size: number, color: string) {
+  const { shape, outline } = ENEMY_ARCHETYPES[archetype];
+  const half = size / 2;
+
+  ctx.save();
+  ctx.beginPath();
+  if (shape.kind === 'circle') {
+    ctx.arc(position.x, position.y, half, 0, Math.PI * 2);
+  } else if (archetype === 'spiky') {
+    // Spike tips on the collision polygon's corners, notches in between
+    const corners = enemyOutline(archetype, position, size);
+    corners.forEach((corner, i) => {
+      const next = corners[(i + 1) % corners.length];
+      const notchX = position.x + ((corner.x + next.x) / 2 - position.x) * 0.6;
+      const notchY = position.y + ((corner.y + next.y) / 2 - position.y) * 0.6;
+      if (i === 0) ctx.moveTo(corner.x, corner.y);
+      else ctx.lineTo(corner.x, corner.y);
+      ctx.lineTo(notchX, notchY);
+    });
+  } else {
+    const corners = enemyOutline(archetype, position, size);
+    ctx.moveTo(corners[0].x, corners[0].y);
+    for (const corner of corners.slice(1)) {
+      ctx.lineTo(corner.x, corner.y);
+    }
+  }
+  ctx.closePath();
+  ctx.fillStyle = color;
+  ctx.fill();
+  ctx.strokeStyle = outline;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  // Armor plating: a smaller copy of the outline
+  if (archetype === 'armored') {
+    const plate = enemyOutline(archetype, position, size * 0.6);
+    ctx.beginPath();
+    ctx.moveTo(plate[0].x, plate[0].y);
+    for (const corner of plate.slice(1)) {
+      ctx.lineTo(corner.x, corner.y);
+    }
+    ctx.closePath();
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  }
+
+  // Bosses wear a crown
+  if (ENEMY_ARCHETYPES[archetype].boss) {
+    const top = position.y - half;
+    ctx.beginPath();
+    ctx.moveTo(position.x - half * 0.5, top);
+    ctx.lineTo(position.x - half * 0.5, top - 14);
+    ctx.lineTo(position.x - half * 0.25, top - 6);
+    ctx.lineTo(position.x, top - 18);
+    ctx.lineTo(position.x + half * 0.25, top - 6);
+    ctx.lineTo(position.x + half * 0.5, top - 14);
+    ctx.lineTo(position.x + half * 0.5, top);
+    ctx.closePath();
+    ctx.fillStyle = '#facc15'; // Tailwind yellow-400
+    ctx.fill();
+    ctx.strokeStyle = '#a16207'; // Tailwind yellow-700
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  }
+
+  // Draw simple face (angry eyes)
+  ctx.fillStyle = 'white';
+  const eyeSize = 6;
+  const eyeY = position.y - 4;
+  ctx.fillRect(position.x - 10, eyeY, eyeSize, eyeSize);
+  ctx.fillRect(position.x + 4, eyeY, eyeSize, eyeSize);
+
+  // Angry pupils
+  ctx.fillStyle = '#1f2937';
+  ctx.fillRect(position.x - 8, eyeY + 2, 3, 3);
+  ctx.fillRect(position.x + 6, eyeY + 2, 3, 3);
+
+  // Angry mouth
+  ctx.strokeStyle = '#1f2937';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(position.x - 6, position.y + 8);
+  ctx.lineTo(position.x + 6, position.y + 8);
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Warn that an attack is coming: a "!" over the enemy that fills in as the
+// wind-up runs, plus a hint of what the attack will do
+function drawTelegraph(ctx: CanvasRenderingContext2D, enemy: RenderEnemy) {
+  const { position, size, telegraph, aim } = enemy;
+  const half = size / 2;
+
+  ctx.save();
+  ctx.globalAlpha = 0.4 + telegraph * 0.6;
+  ctx.strokeStyle = ATTACK_COLOR;
+  ctx.fillStyle = ATTACK_COLOR;
+  ctx.lineWidth = 2;
+  switch (enemy.attack) {
+    case 'shoot':
+      // Dashed line along the aim, growing as the shot gets closer
+      ctx.setLineDash([6, 6]);
+      ctx.beginPath();
+      ctx.moveTo(position.x + aim.x * half, position.y + aim.y * half);
+      ctx.lineTo(position.x + aim.x * (half + 160 * telegraph), position.y + aim.y * (half + 160 * telegraph));
+      ctx.stroke();
+      ctx.setLineDash([]);
+      break;
+    case 'pound':
+      // Ring on the ground it is about to shake
+      ctx.beginPath();
+      ctx.ellipse(position.x, position.y + half, half + 30 * telegraph, 6, 0, 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+    case 'charge': {
+      // Arrow pointing the way it will dash
+      const direction = Math.sign(aim.x) || 1;
+      const tipX = position.x + direction * (half + 12 + 16 * telegraph);
+      ctx.beginPath();
+      ctx.moveTo(tipX, position.y);
+      ctx.lineTo(tipX - direction * 10, position.y - 7);
+      ctx.lineTo(tipX - direction * 10, position.y + 7);
+      ctx.closePath();
+      ctx.fill();
+      break;
+    }
+  }
+
+  ctx.font = 'bold 16px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText('!', position.x, position.y - half - 16);
+  ctx.restore();
+}
+
+// Confetti flying out of where the boss fell; t runs 0 → 1 over the burst
+function drawVictoryBurst(ctx: CanvasRenderingContext2D, origin: Vector2, t: number) {
+  ctx.save();
+  ctx.globalAlpha = 1 - t;
+  for (let i = 0; i < 30; i++) {
+    const angle = (i / 30) * Math.PI * 2;
+    const speed = 180 + (i % 5) * 50;
+    const seconds = t * VICTORY_BURST_DURATION / 1000;
+    const x = origin.x + Math.cos(angle) * speed * seconds;
+    const y = origin.y + Math.sin(angle) * speed * seconds + 300 * seconds * seconds;
+    ctx.fillStyle = CONFETTI_COLORS[i % CONFETTI_COLORS.length];
+    ctx.fillRect(x - 3, y - 3, 6, 6);
+  }
+  ctx.restore();
+}
+
+// Speed lines trailing a charging enemy
+function drawChargeTrail(ctx: CanvasRenderingContext2D, enemy: RenderEnemy) {
+  const { position, size, aim } = enemy;
+  const half = size / 2;
+  const back = -(Math.sign(aim.x) || 1);
+
+  ctx.save();
+  ctx.strokeStyle = ATTACK_COLOR;
+  ctx.lineWidth = 2;
+  ctx.globalAlpha = 0.7;
+  ctx.beginPath();
+  for (const offset of [-0.5, 0, 0.5]) {
+    const y = position.y + offset * half;
+    ctx.moveTo(position.x + back * (half + 4), y);
+    ctx.lineTo(position.x + back * (half + 22), y);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawProjectile(ctx: CanvasRenderingContext2D, projectile: RenderProjectile) {
+  const { position, radius } = projectile;
+  ctx.save();
+  ctx.fillStyle = ATTACK_COLOR;
+  ctx.strokeStyle = '#c2410c'; // Tailwind orange-700
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  if (projectile.kind === 'shockwave') {
+    // A hump of ground rolling outward, steep side in front
+    const front = projectile.direction || 1;
+    const bottom = position.y + radius;
+    ctx.moveTo(position.x - front * radius * 1.5, bottom);
+    ctx.quadraticCurveTo(position.x, position.y - radius, position.x + front * radius * 0.8, bottom);
+  } else {
+    ctx.arc(position.x, position.y, radius, 0, Math.PI * 2);
+  }
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+}
+
+// A blob of material waiting to be absorbed, drawn `bob` units below its position
+export function drawPickup(ctx: CanvasRenderingContext2D, pickup: Omit<MaterialPickup, 'id'>, bob: number = 0) {
+  const color = MATERIALS[pickup.material].color ?? PLAYER_COLORS[0];
+  const x = pickup.position.x;
+  const y = pickup.position.y + bob;
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(x, y, PICKUP_RADIUS, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  // Highlight
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.beginPath();
+  ctx.arc(x - PICKUP_RADIUS * 0.35, y - PICKUP_RADIUS * 0.35, PICKUP_RADIUS * 0.3, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+// A droplet of food, point up, drawn `bob` units below its position
+export function drawDroplet(ctx: CanvasRenderingContext2D, droplet: Omit<Droplet, 'id'>, bob: number = 0) {
+  const { x } = droplet.position;
+  const y = droplet.position.y + bob;
+  const r = DROPLET_RADIUS;
+  ctx.save();
+  ctx.fillStyle = DROPLET_COLOR;
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(x, y - r * 1.8);
+  ctx.quadraticCurveTo(x + r, y - r * 0.6, x + r, y);
+  ctx.arc(x, y, r, 0, Math.PI);
+  ctx.quadraticCurveTo(x - r, y - r * 0.6, x, y - r * 1.8);
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Names over a split slime's fragments, with a marker over the one being steered
+function drawFragmentLabels(ctx: CanvasRenderingContext2D, fragments: RenderFragment[], color: string) {
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  for (const fragment of fragments) {
+    const { x, y } = fragment.center;
+    ctx.globalAlpha = fragment.controlled ? 1 : 0.6;
+    ctx.fillStyle = color;
+    ctx.font = fragment.controlled ? 'bold 13px sans-serif' : '12px sans-serif';
+    ctx.fillText(fragment.name, x, y - 45);
+    if (fragment.controlled) {
+      ctx.beginPath();
+      ctx.moveTo(x - 6, y - 40);
+      ctx.lineTo(x + 6, y - 40);
+      ctx.lineTo(x, y - 33);
+      ctx.closePath();
+      ctx.fill();
+    }
+  }
+  ctx.restore();
+}
+
+// Player 2's aim arrow, ringed with the charge while the launch key is held
+function drawKeyboardAim(ctx: CanvasRenderingContext2D, center: Vector2, direction: Vector2, chargeLevel: number | null, color: string) {
+  const start = 30;
+  const length = 30 + (chargeLevel ?? 0) * 30;
+  const tipX = center.x + direction.x * (start + length);
+  const tipY = center.y + direction.y * (start + length);
+
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 3;
+  ctx.globalAlpha = 0.8;
+  ctx.beginPath();
+  ctx.moveTo(center.x + direction.x * start, center.y + direction.y * start);
+  ctx.lineTo(tipX, tipY);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(tipX + direction.x * 8, tipY + direction.y * 8);
+  ctx.lineTo(tipX - direction.y * 6, tipY + direction.x * 6);
+  ctx.lineTo(tipX + direction.y * 6, tipY - direction.x * 6);
+  ctx.closePath();
+  ctx.fill();
+
+  if (chargeLevel !== null) {
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, start + 10, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * chargeLevel);
+    ctx.lineWidth = 4;
+    ctx.stroke();
+  }
+  ctx.restore();
+}
 
 interface SimulationCanvasProps {
   config: SimulationConfig;
   audioConfig: AudioConfig;
   isPaused?: boolean;
+  level?: LevelDefinition | null; // null = classic random layout
+  players?: number;               // 2 = local co-op
 }
 
-export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audioConfig, isPaused = false }) => {
+export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audioConfig, isPaused = false, level = null, players = 1 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  // Re-init physics engine if particle count changes dramatically, but usually we just update
-  const engineRef = useRef<PhysicsEngine | null>(null);
+  // Physics runs behind this host (a Web Worker, or the main thread as a fallback)
+  const hostRef = useRef<EngineHost | null>(null);
   const requestRef = useRef<number>(0);
+  // Latest frame from the simulation plus the one before it, for render interpolation
+  const frameRef = useRef<FrameData | null>(null);
+  const frameReceivedAtRef = useRef(0);
+  const prevFrameRef = useRef<{
+    particles: Float32Array;
+    enemies: Float32Array;
+    projectiles: Float32Array;
+    particleIndex: Map<number, number>;
+    enemyIndex: Map<number, number>;
+    projectileIndex: Map<number, number>;
+  } | null>(null);
+  const worldRef = useRef<WorldInfo | null>(null);
+  const enemyStylesRef = useRef<Map<number, EnemyStyle>>(new Map());
   const mousePosRef = useRef<Vector2 | null>(null);
+  const popsRef = useRef<{ position: Vector2; startedAt: number }[]>([]); // Expired-particle puffs
+  const flashesRef = useRef<{ position: Vector2; startedAt: number; radius: number; color: string }[]>([]); // Material effects
+  const victoryBurstRef = useRef<{ position: Vector2; startedAt: number } | null>(null);
   const [launchCooldown, setLaunchCooldown] = useState(0);
   const [isCharging, setIsCharging] = useState(false);
   const [chargeStartTime, setChargeStartTime] = useState<number>(0);
   const [soundEnabled, setSoundEnabled] = useState(true);
-  const [gameState, setGameState] = useState<GameState>({
-    isGameOver: false
+  const soundEnabledRef = useRef(true);
+  const [gameState, setGameState] = useState<Pick<GameState, 'isGameOver' | 'isVictory'>>({
+    isGameOver: false,
+    isVictory: false
   });
-  const [particleCount, setParticleCount] = useState(0);
-  const keyboardInputRef = useRef<KeyboardInput>({ left: false, right: false, jump: false });
+  const [boss, setBoss] = useState<BossStatus | null>(null);
+  const [slimes, setSlimes] = useState<SlimeStatus[]>([]);
+  const [seed, setSeed] = useState(0);
+  const [seedCopied, setSeedCopied] = useState(false);
+  const [worldSize, setWorldSize] = useState({ width: CANVAS_WIDTH, height: CANVAS_HEIGHT });
+  const keyboardInputsRef = useRef<KeyboardInput[]>(PLAYER_KEYS.map(() => ({ left: false, right: false, jump: false, stick: false })));
+  const playersRef = useRef(players);
+  // Player 2's aim and, while the launch key is held, when charging started
+  const keyboardAimRef = useRef({ facing: 1, elevation: Math.PI / 6 });
+  const keyboardChargeRef = useRef<number | null>(null);
+
+  // Replay recording / playback (the recorder and player live next to the engine)
+  const replayModeRef = useRef<ReplayMode>('live');
+  const [replayMode, setReplayMode] = useState<ReplayMode>('live');
+  const [replayTickCount, setReplayTickCount] = useState(0);
+  const [playbackTick, setPlaybackTick] = useState(0);
+  const [isPlaybackPaused, setIsPlaybackPaused] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  // Save slots
+  const [showSaves, setShowSaves] = useState(false);
+  const [saveSlots, setSaveSlots] = useState<{ name: string; savedAt: number }[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const playSound = (event: SoundEvent) => {
+    if (!soundEnabledRef.current) return;
+
+    switch (event.type) {
+      case 'jump':
+        audioService.play('jump');
+        break;
+      case 'launch':
+        audioService.play('launch', event.intensity || 0.5);
+        break;
+      case 'bounce':
+        audioService.play('bounce', event.intensity || 1);
+        break;
+      case 'reabsorb':
+        audioService.play('reabsorb');
+        break;
+      case 'hurt':
+        audioService.play('hurt');
+        break;
+      case 'gameOver':
+        audioService.play('gameOver');
+        break;
+      case 'enemyHit':
+        audioService.play('enemyHit');
+        break;
+      case 'particleDeath':
+        audioService.play('particleDeath');
+        break;
+      case 'enemyTelegraph':
+        audioService.play('enemyTelegraph');
+        break;
+      case 'enemyShoot':
+        audioService.play('enemyShoot');
+        break;
+      case 'enemyPound':
+        audioService.play('enemyPound');
+        break;
+      case 'enemyCharge':
+        audioService.play('enemyCharge');
+        break;
+      case 'bossPhase':
+        audioService.play('bossPhase');
+        break;
+      case 'victory':
+        audioService.play('victory');
+        break;
+      case 'split':
+        audioService.play('split');
+        break;
+      case 'merge':
+        audioService.play('merge');
+        break;
+      case 'absorb':
+        audioService.play('absorb');
+        break;
+      case 'explode':
+        audioService.play('explode');
+        break;
+      case 'zap':
+        audioService.play('zap');
+        break;
+      case 'grow':
+        audioService.play('grow');
+        break;
+    }
+  };
 
-  // Initialize engine
-  useEffect(() => {
-    const engine = new PhysicsEngine(CANVAS_WIDTH, CANVAS_HEIGHT, config.particleCount);
-
-    // Set up sound event callback
-    engine.onSoundEvent = (event: SoundEvent) => {
-      if (!soundEnabled) return;
-
-      switch (event.type) {
-        case 'jump':
-          audioService.play('jump');
-          break;
-        case 'launch':
-          audioService.play('launch', event.intensity || 0.5);
-          break;
-        case 'bounce':
-          audioService.play('bounce', event.intensity || 1);
-          break;
-        case 'reabsorb':
-          audioService.play('reabsorb');
-          break;
-        case 'hurt':
-          audioService.play('hurt');
-          break;
-        case 'gameOver':
-          audioService.play('gameOver');
-          break;
-        case 'enemyHit':
-          audioService.play('enemyHit');
-          break;
-        case 'particleDeath':
-          audioService.play('particleDeath');
-          break;
+  // Everything the simulation reports back (only touches refs and setters)
+  const handleHostEvent = (event: HostEvent) => {
+    switch (event.type) {
+      case 'frame': {
+        const previous = frameRef.current;
+        prevFrameRef.current = previous && {
+          particles: previous.particles,
+          enemies: previous.enemies,
+          projectiles: previous.projectiles,
+          particleIndex: indexById(previous.particles, PARTICLE_STRIDE),
+          enemyIndex: indexById(previous.enemies, ENEMY_STRIDE),
+          projectileIndex: indexById(previous.projectiles, PROJECTILE_STRIDE)
+        };
+        frameRef.current = event;
+        frameReceivedAtRef.current = performance.now();
+
+        if (replayModeRef.current !== 'live') {
+          setPlaybackTick(event.replayTick);
+        }
+        if (event.playback) {
+          mousePosRef.current = event.playback.mouse;
+          setIsPlaybackPaused(event.playback.paused);
+        }
+        break;
       }
+
+      case 'world':
+        worldRef.current = event.world;
+        enemyStylesRef.current = new Map(event.world.enemyStyles);
+        // Positions from the old world would interpolate across the jump
+        frameRef.current = null;
+        prevFrameRef.current = null;
+        setSeed(event.world.seed);
+        setWorldSize({ width: event.world.width, height: event.world.height });
+        break;
+
+      case 'sound':
+        playSound(event.event);
+        if (event.event.type === 'particleDeath' && event.event.position) {
+          popsRef.current.push({ position: event.event.position, startedAt: performance.now() });
+        }
+        if ((event.event.type === 'absorb' || event.event.type === 'explode' || event.event.type === 'zap' || event.event.type === 'grow') && event.event.position) {
+          const style = FLASH_STYLES[event.event.type];
+          const color = event.event.material ? MATERIALS[event.event.material].color ?? style.color : style.color;
+          flashesRef.current.push({ position: event.event.position, startedAt: performance.now(), radius: style.radius, color });
+        }
+        if (event.event.type === 'victory' && event.event.position) {
+          victoryBurstRef.current = { position: event.event.position, startedAt: performance.now() };
+        }
+        break;
+
+      case 'gameState':
+        setGameState({
+          isGameOver: event.state.isGameOver,
+          isVictory: event.state.isVictory ?? false
+        });
+        if (event.state.boss !== undefined) {
+          setBoss(event.state.boss);
+        }
+        if (event.state.slimes !== undefined) {
+          setSlimes(event.state.slimes);
+        }
+        break;
+
+      case 'replayMode':
+        replayModeRef.current = event.mode;
+        setReplayMode(event.mode);
+        setReplayTickCount(event.tickCount);
+        setPlaybackTick(0);
+        if (event.mode !== 'playback') {
+          setIsPlaybackPaused(false);
+        }
+        break;
+
+      case 'recording':
+        downloadReplay(event.replay);
+        break;
+
+      case 'snapshot':
+        try {
+          writeSaveSlot(event.slot, event.snapshot);
+          setSaveSlots(listSaveSlots());
+          setNotice(event.slot === QUICK_SAVE_SLOT ? '已快速存档' : `已保存 "${event.slot}"`);
+        } catch (err) {
+          setNotice(`存档失败: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        break;
+
+      case 'loaded':
+        setNotice(event.slot === QUICK_SAVE_SLOT ? '已快速读档' : `已读取 "${event.slot}"`);
+        break;
+
+      case 'error':
+        if (event.scope === 'replay') {
+          setReplayError(event.message);
+        } else {
+          setNotice(`${event.scope === 'save' ? '存档' : '读档'}失败: ${event.message}`);
+        }
+        break;
+    }
+  };
+
+  const send = (command: HostCommand) => {
+    hostRef.current?.send(command);
+  };
+
+  const sendInput = () => {
+    send({
+      type: 'input',
+      keys: keyboardInputsRef.current.slice(0, playersRef.current).map(keys => ({ ...keys })),
+      mouse: mousePosRef.current
+    });
+  };
+
+  // Start the physics host (?worker=off keeps physics on the main thread)
+  useEffect(() => {
+    const preferWorker = new URLSearchParams(window.location.search).get('worker') !== 'off';
+    const host = createEngineHost(preferWorker);
+    host.onEvent = handleHostEvent;
+    hostRef.current = host;
+    return () => {
+      host.dispose();
+      hostRef.current = null;
     };
+  }, []);
 
-    // Set up game state change callback
-    engine.onGameStateChange = (state: GameStateEvent) => {
-      setGameState({
-        isGameOver: state.isGameOver
-      });
-      if (state.particleCount !== undefined) {
-        setParticleCount(state.particleCount);
+  // Initialize engine
+  useEffect(() => {
+    playersRef.current = players;
+    keyboardChargeRef.current = null;
+    send({ type: 'init', particleCount: config.particleCount, players, level, config });
+  }, [config.particleCount, players, level]); // Re-create if count, players or level changes
+
+  // Config edits (recorded into the replay while recording)
+  useEffect(() => {
+    send({ type: 'config', config });
+  }, [config]);
+
+  useEffect(() => {
+    send({ type: 'pause', paused: isPaused });
+  }, [isPaused]);
+
+  useEffect(() => {
+    soundEnabledRef.current = soundEnabled;
+  }, [soundEnabled]);
+
+  // Save / load engine snapshots; the snapshot itself is taken next to the engine
+  const saveToSlot = (name: string) => {
+    send({ type: 'save', slot: name });
+  };
+
+  const loadFromSlot = (name: string) => {
+    try {
+      const slot = readSaveSlot(name);
+      if (!slot) {
+        setNotice('没有找到存档');
+        return;
       }
-    };
+      send({ type: 'load', slot: name, snapshot: slot.snapshot });
+    } catch (err) {
+      setNotice(`读档失败: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
 
-    // Initialize game state from engine
-    setGameState({
-      isGameOver: engine.gameState.isGameOver
-    });
-    setParticleCount(engine.particles.length);
+  const deleteSlot = (name: string) => {
+    deleteSaveSlot(name);
+    setSaveSlots(listSaveSlots());
+  };
 
-    engineRef.current = engine;
-  }, [config.particleCount, soundEnabled]); // Re-create if count or sound setting changes
+  // Hide notices after a moment
+  useEffect(() => {
+    if (notice) {
+      const timer = setTimeout(() => setNotice(null), 1500);
+      return () => clearTimeout(timer);
+    }
+  }, [notice]);
+
+  // Player 2 let go of the launch key: fire along the aim arrow, charged like a mouse launch.
+  // Only touches refs, since the key handlers are bound once.
+  const releaseKeyboardCharge = (player: number) => {
+    const startedAt = keyboardChargeRef.current;
+    keyboardChargeRef.current = null;
+    const frame = frameRef.current;
+    if (startedAt === null || !frame) return;
+
+    const center = frame.fragments.find(fragment => fragment.owner === player && fragment.controlled)?.center
+      ?? slimeCenter(decodeParticles(frame.particles, null, new Map(), 1), player);
+    if (!center) return;
+    const direction = aimDirection(keyboardAimRef.current);
+    const chargeDuration = Math.min((Date.now() - startedAt) / 1000, 1.0);
+    send({
+      type: 'launch',
+      target: { x: center.x + direction.x * KEYBOARD_AIM_DISTANCE, y: center.y + direction.y * KEYBOARD_AIM_DISTANCE },
+      velocity: 200 + chargeDuration * 1000, // Same 200-1200 range as the mouse
+      player
+    });
+  };
 
-  // Keyboard handlers for movement
+  // Keyboard handlers for movement (and player 2's aiming)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // A/D keys for movement
-      if (e.code === 'KeyA' || e.key === 'a') {
-        keyboardInputRef.current.left = true;
+      // Don't steer the slime while typing (e.g. a save name)
+      if (e.target instanceof HTMLInputElement) return;
+
+      // Quick save / quick load
+      if (e.code === 'F5') {
+        e.preventDefault(); // Prevent page reload
+        saveToSlot(QUICK_SAVE_SLOT);
+        return;
       }
-      if (e.code === 'KeyD' || e.key === 'd') {
-        keyboardInputRef.current.right = true;
-      }
-      // Spacebar for jump
-      if ((e.code === 'Space' || e.key === ' ')) {
-        keyboardInputRef.current.jump = true;
-        e.preventDefault(); // Prevent scrolling
+      if (e.code === 'F9') {
+        e.preventDefault();
+        loadFromSlot(QUICK_SAVE_SLOT);
+        return;
       }
+
+      PLAYER_KEYS.slice(0, playersRef.current).forEach((keys, player) => {
+        const input = keyboardInputsRef.current[player];
+        if (e.code === keys.left) input.left = true;
+        if (e.code === keys.right) input.right = true;
+        if (e.code === keys.jump) {
+          input.jump = true;
+          e.preventDefault(); // Prevent scrolling
+        }
+        if (e.code === keys.stick) input.stick = true;
+        if (e.code === keys.cycle && !e.repeat && replayModeRef.current !== 'playback') {
+          send({ type: 'switchFragment', player });
+          e.preventDefault(); // '/' opens quick find in some browsers
+        }
+
+        // Keyboard aiming follows the way the slime last moved
+        if (!keys.launch) return;
+        const aim = keyboardAimRef.current;
+        if (e.code === keys.left) aim.facing = -1;
+        if (e.code === keys.right) aim.facing = 1;
+        if (e.code === keys.aimUp) {
+          aim.elevation = Math.min(AIM_MAX, aim.elevation + AIM_STEP);
+          e.preventDefault();
+        }
+        if (e.code === keys.aimDown) {
+          aim.elevation = Math.max(AIM_MIN, aim.elevation - AIM_STEP);
+          e.preventDefault();
+        }
+        if (e.code === keys.launch && !e.repeat && replayModeRef.current !== 'playback') {
+          keyboardChargeRef.current = Date.now();
+        }
+      });
+      sendInput();
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
-      // A/D keys for movement
-      if (e.code === 'KeyA' || e.key === 'a') {
-        keyboardInputRef.current.left = false;
-      }
-      if (e.code === 'KeyD' || e.key === 'd') {
-        keyboardInputRef.current.right = false;
-      }
-      // Spacebar for jump
-      if ((e.code === 'Space' || e.key === ' ')) {
-        keyboardInputRef.current.jump = false;
-      }
+      PLAYER_KEYS.slice(0, playersRef.current).forEach((keys, player) => {
+        const input = keyboardInputsRef.current[player];
+        if (e.code === keys.left) input.left = false;
+        if (e.code === keys.right) input.right = false;
+        if (e.code === keys.jump) input.jump = false;
+        if (e.code === keys.stick) input.stick = false;
+        if (e.code === keys.launch) releaseKeyboardCharge(player);
+      });
+      sendInput();
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -129,6 +806,46 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
     });
   }, [audioConfig]);
 
+  // Hide the "copied" hint after a moment
+  useEffect(() => {
+    if (seedCopied) {
+      const timer = setTimeout(() => setSeedCopied(false), 1500);
+      return () => clearTimeout(timer);
+    }
+  }, [seedCopied]);
+
+  const copySeed = () => {
+    navigator.clipboard?.writeText(String(seed)).then(() => setSeedCopied(true)).catch(() => {});
+  };
+
+  const startRecording = () => {
+    setIsCharging(false);
+    setReplayError(null);
+    send({ type: 'startRecording' });
+  };
+
+  const stopRecording = () => {
+    send({ type: 'stopRecording' });
+  };
+
+  const loadReplay = (text: string) => {
+    setIsCharging(false);
+    setReplayError(null);
+    send({ type: 'loadReplay', text });
+  };
+
+  const togglePlayback = () => {
+    send({ type: 'togglePlayback' });
+  };
+
+  const seekPlayback = (tick: number) => {
+    send({ type: 'seek', tick });
+  };
+
+  const exitPlayback = () => {
+    send({ type: 'exitPlayback' });
+  };
+
   // Update cooldown
   useEffect(() => {
     if (launchCooldown > 0) {
@@ -139,10 +856,18 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
 
   // Draw charge indicator (must be defined before draw callback)
   const drawChargeIndicator = useCallback((ctx: CanvasRenderingContext2D) => {
-    if (!isCharging || !mousePosRef.current) return;
-
-    const chargeDuration = Math.min((Date.now() - chargeStartTime) / 1000, 1.0);
-    const chargeLevel = chargeDuration;
+    if (!mousePosRef.current) return;
+
+    // During playback the charge comes from the recorded ticks instead of the wall clock
+    const playback = frameRef.current?.playback;
+    let chargeLevel: number;
+    if (playback) {
+      if (playback.chargeLevel === null) return;
+      chargeLevel = playback.chargeLevel;
+    } else {
+      if (!isCharging) return;
+      chargeLevel = Math.min((Date.now() - chargeStartTime) / 1000, 1.0);
+    }
 
     const centerX = mousePosRef.current.x;
     const centerY = mousePosRef.current.y;
@@ -180,9 +905,14 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
     ctx.restore();
   }, [isCharging, chargeStartTime]);
 
-  const drawSlimeParticles = useCallback((ctx: CanvasRenderingContext2D, particles: typeof PhysicsEngine.prototype.particles) => {
+  // One player's slime in their color; the pupils look toward lookAt
+  const drawSlimeParticles = useCallback((ctx: CanvasRenderingContext2D, particles: RenderParticle[], color: string, lookAt: Vector2 | null) => {
     const { renderMode, particleRadius } = config;
-    const mousePos = mousePosRef.current;
+    // Launched particles fade out as their health drains
+    const baseAlpha = ctx.globalAlpha;
+    const fade = (p: RenderParticle) => baseAlpha * (p.isEmitted ? p.life : 1);
+    // Plain slime in the player's color, other materials in their own
+    const fill = (p: RenderParticle) => MATERIALS[p.material].color ?? color;
 
     // --- Pass 1: Render the Liquid Blob (Metaballs) ---
     ctx.save();
@@ -192,18 +922,21 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
     }
 
     for (const p of particles) {
+      // The goo filter thresholds alpha, so fading projectiles are drawn after it
+      if (renderMode === 'blob' && p.isEmitted) continue;
+      ctx.globalAlpha = fade(p);
       ctx.beginPath();
       const drawRadius = renderMode === 'blob' ? particleRadius * 1.3 : particleRadius;
       ctx.arc(p.position.x, p.position.y, drawRadius, 0, Math.PI * 2);
 
       if (renderMode === 'blob') {
-        ctx.fillStyle = SLIME_COLOR_BASE;
+        ctx.fillStyle = fill(p);
       } else if (renderMode === 'debug') {
         const speed = Math.sqrt(p.velocity.x ** 2 + p.velocity.y ** 2);
         const r = Math.min(255, speed);
         ctx.fillStyle = `rgb(${r}, 100, 150)`;
       } else {
-        ctx.fillStyle = SLIME_COLOR_BASE;
+        ctx.fillStyle = fill(p);
       }
 
       ctx.fill();
@@ -211,16 +944,32 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
 
     ctx.restore();
 
+    if (renderMode === 'blob') {
+      ctx.save();
+      for (const p of particles) {
+        if (!p.isEmitted) continue;
+        ctx.fillStyle = fill(p);
+        ctx.globalAlpha = fade(p);
+        ctx.beginPath();
+        ctx.arc(p.position.x, p.position.y, particleRadius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.restore();
+    }
+
     // --- Pass 2: Render Particle Nuclei (Body only) ---
     if (renderMode === 'blob') {
+      ctx.save();
       ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
       for (const p of particles) {
         if (p.type !== 'eye') {
+          ctx.globalAlpha = fade(p);
           ctx.beginPath();
           ctx.arc(p.position.x, p.position.y, particleRadius * 0.4, 0, Math.PI * 2);
           ctx.fill();
         }
       }
+      ctx.restore();
     }
 
     // --- Pass 3: Render Eyes ---
@@ -236,13 +985,13 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
           ctx.arc(p.position.x, p.position.y, eyeRadius, 0, Math.PI * 2);
           ctx.fill();
 
-          // Calculate pupil position (look at mouse)
+          // Calculate pupil position (look at the aim point)
           let pupilOffsetX = 0;
           let pupilOffsetY = 0;
 
-          if (mousePos) {
-            const dx = mousePos.x - p.position.x;
-            const dy = mousePos.y - p.position.y;
+          if (lookAt) {
+            const dx = lookAt.x - p.position.x;
+            const dy = lookAt.y - p.position.y;
             const dist = Math.sqrt(dx * dx + dy * dy);
 
             const maxOffset = eyeRadius * 0.4;
@@ -268,76 +1017,135 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
     }
   }, [config]);
 
-  const draw = useCallback((ctx: CanvasRenderingContext2D) => {
-    if (!engineRef.current) return;
-    const engine = engineRef.current;
+  // Debug view of the jelly spring graph, green when relaxed and red close to tearing
+  const drawSprings = useCallback((ctx: CanvasRenderingContext2D, springs: Float32Array, particles: RenderParticle[]) => {
+    if (springs.length === 0) return;
+    const positions = new Map<number, Vector2>();
+    for (const p of particles) {
+      positions.set(p.id, p.position);
+    }
+
+    ctx.save();
+    ctx.lineWidth = 1.5;
+    for (let o = 0; o < springs.length; o += SPRING_STRIDE) {
+      const a = positions.get(springs[o]);
+      const b = positions.get(springs[o + 1]);
+      if (!a || !b) continue;
+      const strain = Math.min(1, Math.max(0, (springs[o + 2] - 1) / (config.springBreakRatio - 1)));
+      ctx.strokeStyle = `rgba(${Math.round(34 + 205 * strain)}, ${Math.round(197 - 129 * strain)}, 94, 0.8)`;
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+    }
+    ctx.restore();
+  }, [config]);
+
+  const draw = useCallback((ctx: CanvasRenderingContext2D, alpha: number) => {
+    const world = worldRef.current;
+    const frame = frameRef.current;
+    if (!world || !frame) return;
+    const previous = prevFrameRef.current;
+    const particles = decodeParticles(frame.particles, previous?.particles ?? null, previous?.particleIndex ?? new Map(), alpha);
+    const enemies = decodeEnemies(frame.enemies, previous?.enemies ?? null, previous?.enemyIndex ?? new Map(), alpha, enemyStylesRef.current, FALLBACK_ENEMY_STYLE);
+    const projectiles = decodeProjectiles(frame.projectiles, previous?.projectiles ?? null, previous?.projectileIndex ?? new Map(), alpha);
+
+    const { width, height, background } = world;
 
     // Clear background
-    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.clearRect(0, 0, width, height);
+    if (background) {
+      ctx.fillStyle = background.color;
+      ctx.fillRect(0, 0, width, height);
+    }
 
     // Background Grid
-    ctx.strokeStyle = '#f3f4f6';
-    ctx.lineWidth = 1;
-    ctx.beginPath();
-    for(let x=0; x<CANVAS_WIDTH; x+=40) { ctx.moveTo(x,0); ctx.lineTo(x, CANVAS_HEIGHT); }
-    for(let y=0; y<CANVAS_HEIGHT; y+=40) { ctx.moveTo(0,y); ctx.lineTo(CANVAS_WIDTH, y); }
-    ctx.stroke();
+    const gridColor = background ? background.gridColor : DEFAULT_LEVEL_BACKGROUND.gridColor;
+    if (gridColor) {
+      ctx.strokeStyle = gridColor;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for(let x=0; x<width; x+=40) { ctx.moveTo(x,0); ctx.lineTo(x, height); }
+      for(let y=0; y<height; y+=40) { ctx.moveTo(0,y); ctx.lineTo(width, y); }
+      ctx.stroke();
+    }
 
     // Floor
     ctx.fillStyle = '#9ca3af';
-    ctx.fillRect(0, CANVAS_HEIGHT - 4, CANVAS_WIDTH, 4);
-
-    // Draw Slime Particles
-    drawSlimeParticles(ctx, engine.particles);
+    ctx.fillRect(0, height - 4, width, 4);
 
-    // Charge Indicator
-    drawChargeIndicator(ctx);
-
-    // --- Pass 4: Render Enemies ---
-    for (const enemy of engine.enemies) {
-      // Skip dead enemies
-      if (enemy.isDead) continue;
-
-      const halfSize = enemy.size / 2;
+    // Level geometry
+    for (const platform of world.platforms) {
+      drawPlatform(ctx, platform);
+    }
 
-      // Draw enemy body (red square with slight border)
-      ctx.fillStyle = enemy.color;
-      ctx.fillRect(
-        enemy.position.x - halfSize,
-        enemy.position.y - halfSize,
-        enemy.size,
-        enemy.size
-      );
+    // Material pickups and droplets, bobbing gently
+    const now = performance.now();
+    for (const pickup of frame.pickups) {
+      drawPickup(ctx, pickup, Math.sin(now / 300 + pickup.id) * 3);
+    }
+    for (const droplet of frame.droplets) {
+      drawDroplet(ctx, droplet, Math.sin(now / 250 + droplet.id) * 2);
+    }
 
-      // Draw border
-      ctx.strokeStyle = '#b91c1c';
-      ctx.lineWidth = 2;
-      ctx.strokeRect(
-        enemy.position.x - halfSize,
-        enemy.position.y - halfSize,
-        enemy.size,
-        enemy.size
-      );
+    // Draw each player's slime particles (blinking while invincible after a hit)
+    const keyboardDirection = aimDirection(keyboardAimRef.current);
+    const keyboardCharge = keyboardChargeRef.current;
+    frame.invincibleTimes.forEach((invincibleTime, owner) => {
+      const owned = particles.filter(p => p.owner === owner);
+      const fragments = frame.fragments.filter(fragment => fragment.owner === owner);
+      // Player 2 aims from the fragment they steer
+      const center = fragments.find(fragment => fragment.controlled)?.center ?? slimeCenter(owned, owner);
+      const color = PLAYER_COLORS[owner % PLAYER_COLORS.length];
+      // Player 1 looks at the mouse, player 2 along their aim arrow
+      const lookAt = owner === 0 ? mousePosRef.current : center && {
+        x: center.x + keyboardDirection.x * KEYBOARD_AIM_DISTANCE,
+        y: center.y + keyboardDirection.y * KEYBOARD_AIM_DISTANCE
+      };
+      const blinkOff = invincibleTime > 0 && Math.floor(invincibleTime * 10) % 2 === 0;
+      ctx.save();
+      if (blinkOff) {
+        ctx.globalAlpha = 0.3;
+      }
+      drawSlimeParticles(ctx, owned, color, lookAt);
+      ctx.restore();
 
-      // Draw simple face (angry eyes)
-      ctx.fillStyle = 'white';
-      const eyeSize = 6;
-      const eyeY = enemy.position.y - 4;
-      ctx.fillRect(enemy.position.x - 10, eyeY, eyeSize, eyeSize);
-      ctx.fillRect(enemy.position.x + 4, eyeY, eyeSize, eyeSize);
+      if (fragments.length > 1) {
+        drawFragmentLabels(ctx, fragments, color);
+      }
+      if (owner === 1 && center && !frame.playback) {
+        const chargeLevel = keyboardCharge === null ? null : Math.min((Date.now() - keyboardCharge) / 1000, 1.0);
+        drawKeyboardAim(ctx, center, keyboardDirection, chargeLevel, color);
+      }
+    });
+    if (config.renderMode === 'debug') {
+      drawSprings(ctx, frame.springs, particles);
+    }
 
-      // Angry pupils
-      ctx.fillStyle = '#1f2937';
-      ctx.fillRect(enemy.position.x - 8, eyeY + 2, 3, 3);
-      ctx.fillRect(enemy.position.x + 6, eyeY + 2, 3, 3);
+    // Charge Indicator
+    drawChargeIndicator(ctx);
 
-      // Angry mouth
-      ctx.strokeStyle = '#1f2937';
+    // Puffs where launched particles expired or burst
+    popsRef.current = popsRef.current.filter(pop => now - pop.startedAt < POP_DURATION);
+    for (const pop of popsRef.current) {
+      const t = (now - pop.startedAt) / POP_DURATION;
+      ctx.strokeStyle = `rgba(16, 185, 129, ${(1 - t) * 0.8})`;
       ctx.lineWidth = 2;
       ctx.beginPath();
-      ctx.moveTo(enemy.position.x - 6, enemy.position.y + 8);
-      ctx.lineTo(enemy.position.x + 6, enemy.position.y + 8);
+      ctx.arc(pop.position.x, pop.position.y, config.particleRadius * (0.5 + t), 0, Math.PI * 2);
       ctx.stroke();
+    }
+
+    // --- Pass 4: Render Enemies ---
+    // (dead enemies are not part of the frame)
+    for (const enemy of enemies) {
+      const halfSize = enemy.size / 2;
+      if (enemy.charging) drawChargeTrail(ctx, enemy);
+      drawEnemyBody(ctx, enemy.archetype, enemy.position, enemy.size, enemy.color);
+      if (enemy.telegraph > 0) drawTelegraph(ctx, enemy);
+
+      // Hazards can't be hurt, so they get no health bar; bosses get the big one up top
+      if (ENEMY_ARCHETYPES[enemy.archetype].invulnerable || ENEMY_ARCHETYPES[enemy.archetype].boss) continue;
 
       // Draw health bar above enemy
       const healthBarWidth = enemy.size;
@@ -363,36 +1171,81 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
         healthBarHeight
       );
     }
-  }, [config, drawChargeIndicator, drawSlimeParticles]);
 
-  const loop = useCallback(() => {
-    if (!engineRef.current) return;
+    // Enemy bullets and shockwaves
+    for (const projectile of projectiles) {
+      drawProjectile(ctx, projectile);
+    }
+
+    // Flashes where materials went off or were absorbed
+    flashesRef.current = flashesRef.current.filter(flash => now - flash.startedAt < FLASH_DURATION);
+    for (const flash of flashesRef.current) {
+      const t = (now - flash.startedAt) / FLASH_DURATION;
+      ctx.save();
+      ctx.globalAlpha = (1 - t) * 0.5;
+      ctx.fillStyle = flash.color;
+      ctx.beginPath();
+      ctx.arc(flash.position.x, flash.position.y, flash.radius * (0.3 + 0.7 * t), 0, Math.PI * 2);
+      ctx.fill();
+      ctx.restore();
+    }
 
-    // Physics Step (skip if paused)
-    if (!isPaused) {
-      engineRef.current.update(TIME_STEP, config, mousePosRef.current, false, keyboardInputRef.current);
+    const burst = victoryBurstRef.current;
+    if (burst) {
+      const t = (now - burst.startedAt) / VICTORY_BURST_DURATION;
+      if (t < 1) drawVictoryBurst(ctx, burst.position, t);
+      else victoryBurstRef.current = null;
     }
+  }, [config, drawChargeIndicator, drawSlimeParticles, drawSprings]);
 
-    // Render Step (always render)
+  // Render loop: physics runs on its own clock, this only draws the latest frames
+  const loop = useCallback(() => {
+    requestRef.current = requestAnimationFrame(loop);
+
+    // Interpolated from the previous frame toward the latest one over one fixed step
     const canvas = canvasRef.current;
     if (canvas) {
       const ctx = canvas.getContext('2d');
       if (ctx) {
-        draw(ctx);
+        const alpha = (performance.now() - frameReceivedAtRef.current) / (TIME_STEP * 1000);
+        draw(ctx, Math.min(alpha, 1));
       }
     }
-
-    requestRef.current = requestAnimationFrame(loop);
-  }, [config, draw, drawChargeIndicator, drawSlimeParticles, isPaused]);
+  }, [draw]);
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(requestRef.current);
   }, [loop]);
 
+  const startCharge = () => {
+    setIsCharging(true);
+    setChargeStartTime(Date.now());
+    send({ type: 'chargeStart' });
+    // Play charging sound
+    if (soundEnabled) {
+      audioService.play('chargeStart');
+    }
+  };
+
+  const cancelCharge = () => {
+    setIsCharging(false);
+    audioService.stopCharging();
+    send({ type: 'chargeCancel' });
+  };
+
+  const releaseCharge = (target: Vector2) => {
+    const chargeDuration = Math.min((Date.now() - chargeStartTime) / 1000, 1.0);
+    const velocity = 200 + chargeDuration * 1000; // 200-1200 range
+
+    send({ type: 'launch', target, velocity, player: 0 });
+    setLaunchCooldown(0.3);
+    setIsCharging(false);
+  };
+
   const handleMouseMove = (e: React.MouseEvent) => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas || replayMode === 'playback') return;
 
     const rect = canvas.getBoundingClientRect();
     if (rect) {
@@ -404,30 +1257,21 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
         x: (e.clientX - rect.left) * scaleX,
         y: (e.clientY - rect.top) * scaleY
       };
+      sendInput();
     }
   };
 
   const handleMouseDown = (e: React.MouseEvent) => {
     // Left click only
-    if (e.button === 0 && !isCharging && launchCooldown <= 0) {
-      setIsCharging(true);
-      setChargeStartTime(Date.now());
-      // Play charging sound
-      if (soundEnabled) {
-        audioService.play('chargeStart');
-      }
+    if (e.button === 0 && !isCharging && launchCooldown <= 0 && replayMode !== 'playback') {
+      startCharge();
     }
   };
 
   const handleMouseUp = (e: React.MouseEvent) => {
     // Left click release to launch
-    if (e.button === 0 && isCharging && engineRef.current && mousePosRef.current) {
-      const chargeDuration = Math.min((Date.now() - chargeStartTime) / 1000, 1.0);
-      const velocity = 200 + chargeDuration * 1000; // 200-1200 range
-
-      engineRef.current.launchChargedParticle(mousePosRef.current, velocity);
-      setLaunchCooldown(0.3);
-      setIsCharging(false);
+    if (e.button === 0 && isCharging && mousePosRef.current) {
+      releaseCharge(mousePosRef.current);
     }
   };
 
@@ -450,22 +1294,24 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
 
         <canvas
             ref={canvasRef}
-            width={CANVAS_WIDTH}
-            height={CANVAS_HEIGHT}
+            width={worldSize.width}
+            height={worldSize.height}
             className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 max-w-full max-h-full cursor-crosshair touch-none"
             onMouseMove={handleMouseMove}
             onMouseDown={handleMouseDown}
             onMouseUp={handleMouseUp}
             onMouseLeave={() => {
               if (isCharging) {
-                setIsCharging(false);
-                audioService.stopCharging();
+                cancelCharge();
+              }
+              if (replayMode !== 'playback') {
+                mousePosRef.current = null;
+                sendInput();
               }
-              mousePosRef.current = null;
             }}
             onTouchMove={(e) => {
                  const canvas = canvasRef.current;
-                 if (!canvas) return;
+                 if (!canvas || replayMode === 'playback') return;
 
                  const rect = canvas.getBoundingClientRect();
                  if (rect && e.touches[0]) {
@@ -476,10 +1322,11 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
                          x: (e.touches[0].clientX - rect.left) * scaleX,
                          y: (e.touches[0].clientY - rect.top) * scaleY
                      };
+                     sendInput();
                  }
             }}
             onTouchStart={(e) => {
-              if (e.touches[0] && !isCharging && launchCooldown <= 0) {
+              if (e.touches[0] && !isCharging && launchCooldown <= 0 && replayMode !== 'playback') {
                 const canvas = canvasRef.current;
                 if (canvas) {
                   const rect = canvas.getBoundingClientRect();
@@ -487,25 +1334,19 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
                     x: (e.touches[0].clientX - rect.left) * (canvas.width / rect.width),
                     y: (e.touches[0].clientY - rect.top) * (canvas.height / rect.height)
                   };
+                  sendInput();
                 }
-                setIsCharging(true);
-                setChargeStartTime(Date.now());
-                // Play charging sound
-                if (soundEnabled) {
-                  audioService.play('chargeStart');
-                }
+                startCharge();
               }
             }}
             onTouchEnd={(e) => {
-              if (isCharging && engineRef.current && mousePosRef.current) {
-                const chargeDuration = Math.min((Date.now() - chargeStartTime) / 1000, 1.0);
-                const velocity = 200 + chargeDuration * 1000;
-
-                engineRef.current.launchChargedParticle(mousePosRef.current, velocity);
-                setLaunchCooldown(0.3);
-                setIsCharging(false);
+              if (isCharging && mousePosRef.current) {
+                releaseCharge(mousePosRef.current);
+              }
+              if (replayMode !== 'playback') {
+                mousePosRef.current = null;
+                sendInput();
               }
-              mousePosRef.current = null;
             }}
         />
         
@@ -515,6 +1356,63 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
             </span>
         </div>
 
+        {/* Seed display (click to copy) */}
+        <button
+          onClick={copySeed}
+          className="absolute top-12 left-4 pointer-events-auto bg-white/90 backdrop-blur-sm px-3 py-1 rounded-full text-xs font-semibold text-gray-600 shadow-sm border border-emerald-100 hover:bg-white transition-colors font-mono"
+          title="复制种子"
+        >
+          {seedCopied ? '已复制' : `种子 ${seed}`}
+        </button>
+
+        {/* Save slots toggle */}
+        <button
+          onClick={() => {
+            setSaveSlots(listSaveSlots());
+            setShowSaves(!showSaves);
+          }}
+          className="absolute top-12 right-4 pointer-events-auto bg-white/90 backdrop-blur-sm px-3 py-1 rounded-full text-xs font-semibold shadow-sm border border-emerald-100 hover:bg-white transition-colors"
+          title="存档 (F5 快速存档 / F9 快速读档)"
+        >
+          💾 存档
+        </button>
+
+        {showSaves && (
+          <SaveSlots
+            slots={saveSlots}
+            onSave={saveToSlot}
+            onLoad={loadFromSlot}
+            onDelete={deleteSlot}
+            onClose={() => setShowSaves(false)}
+          />
+        )}
+
+        {/* Boss health bar, split into its phases */}
+        {boss && (
+          <div className="absolute top-16 left-1/2 -translate-x-1/2 pointer-events-none w-96">
+            <div className="bg-gray-800/80 backdrop-blur-sm rounded-xl px-4 py-2 shadow-lg">
+              <div className="flex justify-between text-xs font-bold text-white mb-1">
+                <span>👑 {boss.name}</span>
+                <span className="text-white/70 font-mono">阶段 {boss.phase + 1}/{boss.phaseCount}</span>
+              </div>
+              <div className="relative h-3 bg-gray-600 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-rose-500 transition-all duration-200"
+                  style={{ width: `${Math.max(0, boss.health / boss.maxHealth) * 100}%` }}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {notice && (
+          <div className="absolute top-28 left-1/2 -translate-x-1/2 pointer-events-none">
+            <div className="bg-gray-800/80 backdrop-blur-sm rounded-full px-4 py-1 text-white text-xs font-semibold shadow-lg">
+              {notice}
+            </div>
+          </div>
+        )}
+
         {/* Sound toggle button */}
         <button
           onClick={() => {
@@ -527,30 +1425,91 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ config, audi
           {soundEnabled ? '🔊 音效' : '🔇 静音'}
         </button>
 
-        {/* Particle count display */}
-        <div className="absolute top-4 left-1/2 -translate-x-1/2 pointer-events-none">
-          <div className="bg-gray-800/80 backdrop-blur-sm rounded-full px-4 py-2 shadow-lg">
-            <div className="flex items-center gap-2">
-              <span className="text-white text-xs font-bold">史莱姆粒子</span>
-              <span className="text-emerald-400 text-xs font-bold w-8 text-center">
-                {particleCount}
-              </span>
+        {/* Particle count and health display, one pill per player */}
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 pointer-events-none flex gap-2">
+          {slimes.map((slime, player) => (
+            <div key={player} className={`bg-gray-800/80 backdrop-blur-sm rounded-full px-4 py-2 shadow-lg ${slime.isDown ? 'opacity-50' : ''}`}>
+              <div className="flex items-center gap-2">
+                <span className="text-white text-xs font-bold">{slimes.length === 1 ? '史莱姆粒子' : `玩家${player + 1}`}</span>
+                <span className="text-xs font-bold w-8 text-center" style={{ color: PLAYER_COLORS[player % PLAYER_COLORS.length] }}>
+                  {slime.particleCount}
+                </span>
+                {slime.fragmentCount > 1 && !slime.isDown && (
+                  <span className="text-white/80 text-xs font-semibold">
+                    {slime.fragmentName} · {slime.fragmentCount}块
+                  </span>
+                )}
+                {!slime.isDown && slime.materials.map(([material, count]) => (
+                  <span key={material} className="flex items-center gap-1 text-white/80 text-xs font-semibold" title={MATERIALS[material].name}>
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: MATERIALS[material].color ?? undefined }} />
+                    {count}
+                  </span>
+                ))}
+                {slime.isDown ? (
+                  <span className="text-red-400 text-xs font-bold">已倒下</span>
+                ) : (
+                  <>
+                    <span className="text-white text-xs font-bold">HP</span>
+                    <div className="w-24 h-2 bg-gray-600 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full transition-all duration-200 ${slime.health > MAX_HEALTH * 0.3 ? 'bg-emerald-400' : 'bg-red-500'}`}
+                        style={{ width: `${Math.max(0, slime.health / MAX_HEALTH) * 100}%` }}
+                      />
+                    </div>
+                    <span className="text-white/80 text-xs font-mono w-8 text-right">{Math.ceil(slime.health)}</span>
+                    {/* Stamina for clinging to walls and ceilings */}
+                    <div className="w-12 h-1.5 bg-gray-600 rounded-full overflow-hidden" title="体力">
+                      <div
+                        className={`h-full transition-all duration-200 ${slime.stamina > MAX_STAMINA * 0.25 ? 'bg-amber-300' : 'bg-red-400'}`}
+                        style={{ width: `${Math.max(0, slime.stamina / MAX_STAMINA) * 100}%` }}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
             </div>
-          </div>
+          ))}
         </div>
 
-        {/* Game Over overlay */}
-        {gameState.isGameOver && (
+        {/* Replay toolbar */}
+        <ReplayControls
+          mode={replayMode}
+          tick={playbackTick}
+          tickCount={replayTickCount}
+          isPlaybackPaused={isPlaybackPaused}
+          error={replayError}
+          onStartRecording={startRecording}
+          onStopRecording={stopRecording}
+          onLoadReplay={loadReplay}
+          onTogglePlayback={togglePlayback}
+          onSeek={seekPlayback}
+          onExitPlayback={exitPlayback}
+        />
+
+        {/* Victory overlay (light, so the confetti shows through) */}
+        {gameState.isVictory && replayMode !== 'playback' && (
+          <div className="absolute inset-0 bg-black/30 flex items-center justify-center">
+            <div className="bg-white rounded-2xl p-8 shadow-2xl text-center">
+              <h2 className="text-3xl font-bold text-emerald-600 mb-2">胜利！</h2>
+              <p className="text-gray-600 mb-6">{slimes.length > 1 ? '史莱姆们击败了首领！' : '史莱姆击败了首领！'}</p>
+              <button
+                onClick={() => send({ type: 'reset' })}
+                className="bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-3 px-8 rounded-full shadow-lg transition-colors"
+              >
+                再来一次
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Game Over overlay (playback just keeps showing the recorded run) */}
+        {gameState.isGameOver && replayMode !== 'playback' && (
           <div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center">
             <div className="bg-white rounded-2xl p-8 shadow-2xl text-center">
               <h2 className="text-3xl font-bold text-gray-800 mb-2">游戏结束</h2>
-              <p className="text-gray-600 mb-6">史莱姆被敌人击败了！</p>
+              <p className="text-gray-600 mb-6">{slimes.length > 1 ? '两只史莱姆都被击败了！' : '史莱姆被敌人击败了！'}</p>
               <button
-                onClick={() => {
-                  if (engineRef.current) {
-                    engineRef.current.resetGame();
-                  }
-                }}
+                onClick={() => send({ type: 'reset' })}
                 className="bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-3 px-8 rounded-full shadow-lg transition-colors"
               >
                 重新开始
@@ -1,4 +1,4 @@
-import { SimulationConfig } from './types';
+import { SimulationConfig, Platform, MaterialPickup, Droplet, EnemyBehavior, EnemyAttack, EnemyAttackKind } from './types';
 
 export const DEFAULT_CONFIG: SimulationConfig = {
   gravity: 400,
@@ -9,9 +9,35 @@ export const DEFAULT_CONFIG: SimulationConfig = {
   attractionStrength: 1.5,
   interactionRadius: 50,
   damping: 0.96, // High damping for viscous slime feel
+
+  solver: 'pairwise',
+  restDensity: 7,
+  pressureStiffness: 1200,
+  viscosity: 4,
+  surfaceTension: 0.8,
+  solverIterations: 3,
+
+  jelly: false,
+  springStiffness: 300,
+  springDamping: 6,
+  springBreakRatio: 1.8,
+
+  shedMode: 'proportional',
+  shedPerHit: 2,
+
+  projectileDecay: 20,
+  projectileLifetime: 6,
+  reabsorbSpeed: 50,
+  reabsorbDistance: 35,
+
+  maxSlimeParticles: 100,
+  adhesionForce: 900,
   
   mouseInteractionRadius: 150,
   mouseForce: 1000,
+
+  substeps: 1,
+  maxStepsPerFrame: 5,
   
   renderMode: 'blob',
 };
@@ -21,6 +47,17 @@ export const CANVAS_HEIGHT = 600;
 export const TIME_STEP = 1 / 60;
 export const SLIME_COLOR_BASE = '#10b981'; // Tailwind emerald-500
 export const SLIME_COLOR_DARK = '#047857'; // Tailwind emerald-700
+// Slime color of each player in co-op, player 1 first
+export const PLAYER_COLORS = [SLIME_COLOR_BASE, '#3b82f6']; // Tailwind emerald-500, blue-500
+
+// Default level geometry (platforms, a floating slope and a corner ramp)
+export const PLATFORM_COLOR = '#9ca3af'; // Tailwind gray-400
+export const DEFAULT_PLATFORMS: Platform[] = [
+  { id: 0, shape: { kind: 'box', min: { x: 90, y: 400 }, max: { x: 270, y: 420 } }, friction: 0.1, restitution: 0.3 },
+  { id: 1, shape: { kind: 'box', min: { x: 530, y: 380 }, max: { x: 710, y: 400 } }, friction: 0.1, restitution: 0.3 },
+  { id: 2, shape: { kind: 'segment', a: { x: 580, y: 190 }, b: { x: 760, y: 240 } }, friction: 0.05, restitution: 0.6 },
+  { id: 3, shape: { kind: 'polygon', points: [{ x: 0, y: 470 }, { x: 70, y: 600 }, { x: 0, y: 600 }] }, friction: 0.02, restitution: 0.2 },
+];
 
 // Enemy constants
 export const ENEMY_SIZE = 40;
@@ -30,15 +67,80 @@ export const ENEMY_COLOR = '#ef4444'; // Tailwind red-500
 export const ENEMY_COUNT = 2;
 export const ENEMY_MAX_HEALTH = 50;  // 敌人生命值
 export const ENEMY_HIT_COOLDOWN = 0.3; // 受击冷却时间
+export const ENEMY_GRAVITY = 900;     // Pulls enemies down; they fall and hop under it
+export const ENEMY_MASS = 12;         // In particle masses
+export const ENEMY_ACCELERATION = 400;     // How fast a grounded enemy reaches its walking speed
+export const ENEMY_AIR_ACCELERATION = 150; // Same, while airborne or knocked off its feet
+export const ENEMY_SLOWED_SPEED = 0.35;    // Share of its walking speed an enemy keeps while stuck in sticky slime
+// Plain patrol, the behavior of enemies that declare none
+export const DEFAULT_ENEMY_BEHAVIOR: EnemyBehavior = {
+  initialState: 'patrol',
+  sightRange: 0,
+  chaseSpeed: 120,
+  fleeBelow: 0,
+  fleeSpeed: 140,
+  jumpInterval: 0,
+  jumpHeight: 60,
+  idleTime: 0
+};
+// Starting point for each kind of attack; archetypes and level files adjust them
+export const DEFAULT_ENEMY_ATTACKS: Record<EnemyAttackKind, EnemyAttack> = {
+  shoot: { kind: 'shoot', range: 350, cooldown: 2.5, windup: 0.6, damage: 10, speed: 320 },
+  pound: { kind: 'pound', range: 160, cooldown: 3, windup: 0.5, damage: 12, speed: 260 },
+  charge: { kind: 'charge', range: 220, cooldown: 3.5, windup: 0.7, damage: 18, speed: 360 }
+};
+export const ENEMY_BULLET_RADIUS = 6;
+export const SHOCKWAVE_RADIUS = 14; // Height of the wave running along the ground
 export const INVINCIBILITY_TIME = 1.0; // Seconds of invincibility after damage
+export const SLIME_KNOCKBACK = 300;    // Speed the slime is thrown away from an enemy that hurts it
 
-// Emitted particle constants
+// Jelly mode springs: linked between body particles closer than this, nearest first
+export const SPRING_LINK_DISTANCE = 36;
+export const SPRING_MAX_LINKS = 6;
+
+// Emitted particle constants (decay, lifetime and reabsorption also fall back to
+// these for configs saved before those became tunable)
 export const PARTICLE_MAX_HEALTH = 100;  // 发射粒子最大生命值
 export const PARTICLE_HEALTH_DECAY = 20; // 每秒生命值衰减
+export const PARTICLE_LIFETIME = 6;      // 发射粒子最长存在时间（秒）
 export const PARTICLE_DAMAGE = 15;       // 粒子对敌人的伤害
+export const REABSORPTION_VELOCITY_THRESHOLD = 50; // units/sec
+export const REABSORPTION_DISTANCE_THRESHOLD = 35; // units
+export const SLIME_MAX_PARTICLES = 100; // Growth cap for configs saved before it became tunable
 
 // Game state constants
 export const MAX_HEALTH = 100;
+export const MAX_PLAYERS = 2;
+export const PLAYER_SPAWN_SPACING = 160; // Distance between the co-op slimes' spawn points
+
+// Wall and ceiling adhesion
+export const ADHESION_FORCE = 900; // For configs saved before it became tunable
+export const MAX_STAMINA = 100;
+export const STAMINA_DRAIN = 25;   // Per second while clinging
+export const STAMINA_REGEN = 40;   // Per second while not clinging
+
+// Slime fragments
+export const FRAGMENT_MIN_SIZE = 4; // Smaller pieces are left as loose droplets (unless nothing bigger is left)
+export const FRAGMENT_NAMES = ['阿黏', '小滴', '果冻', '泡泡', '糯米', '布丁', '汤圆', '麻薯'];
+
+// Material pickups
+export const PICKUP_RADIUS = 14;
+export const PICKUP_AMOUNT = 6; // Body particles a pickup converts, unless the level says otherwise
+// The classic layout's pickups, one on each of the lower platforms
+export const DEFAULT_PICKUPS: MaterialPickup[] = [
+  { id: 0, position: { x: 180, y: 380 }, material: 'sticky', amount: 8 },
+  { id: 1, position: { x: 620, y: 360 }, material: 'explosive', amount: 6 },
+];
+
+// Droplets (food that grows the slime)
+export const DROPLET_RADIUS = 8;
+export const DROPLET_AMOUNT = 3;    // New particles per droplet, unless the level or enemy says otherwise
+export const DROPLET_COLOR = '#22d3ee'; // Tailwind cyan-400
+// The classic layout's droplets: one on the floating slope, one in the far corner
+export const DEFAULT_DROPLETS: Droplet[] = [
+  { id: 0, position: { x: 700, y: 200 }, amount: DROPLET_AMOUNT },
+  { id: 1, position: { x: 760, y: 580 }, amount: DROPLET_AMOUNT },
+];
 
 // Audio settings
 export const DEFAULT_AUDIO_CONFIG = {
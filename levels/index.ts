@@ -0,0 +1,10 @@
+// 内置关卡 - 打包进应用的 JSON 关卡文件
+// Files are validated at startup so a bad edit fails loudly instead of mid-game.
+
+import { LevelDefinition } from '../types';
+import { validateLevel } from '../services/level';
+import ledges from './ledges.json';
+import canyon from './canyon.json';
+import arena from './arena.json';
+
+export const BUILTIN_LEVELS: LevelDefinition[] = [ledges, canyon, arena].map(data => validateLevel(data));
@@ -0,0 +1,248 @@
+// 无头模拟器 - 在 Node 中运行物理引擎并输出统计数据
+// Usage: npm run sim -- --ticks 3600 --particles 200 --seed 42 [--players 2] [--replay run.json | --script input.json]
+//                       [--level levels/ledges.json] [--config overrides.json] [--sample 60] [--out metrics.json]
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { PhysicsEngine } from '../services/physicsEngine';
+import { ReplayPlayer, parseReplay } from '../services/replay';
+import { parseLevel } from '../services/level';
+import { SimulationConfig, KeyboardInput, Vector2 } from '../types';
+import { DEFAULT_CONFIG, CANVAS_WIDTH, CANVAS_HEIGHT, TIME_STEP, MAX_PLAYERS } from '../constants';
+import { createSeed } from '../services/random';
+
+// Hand-written input script: key ranges are [from, to) in ticks; player is 0-based, default 0
+interface InputScript {
+  keys?: { from: number; to: number; player?: number; left?: boolean; right?: boolean; jump?: boolean; stick?: boolean }[];
+  launches?: { tick: number; x: number; y: number; velocity: number; player?: number }[];
+  switches?: { tick: number; player?: number }[]; // Steer the player's next fragment
+}
+
+interface SimMetrics {
+  seed: number;
+  ticks: number;
+  players: number;
+  particlesPerPlayer: number; // Spawned per slime
+  particleCount: number;      // Spawned in total, across every player
+  particlesAlive: number;
+  particlesEmitted: number;
+  enemiesKilled: number;
+  enemiesTotal: number;
+  gameOverTick: number | null;
+  fragments: number; // Slime pieces at the end
+  centroidPath: { tick: number; x: number; y: number }[];
+}
+
+const { values } = parseArgs({
+  options: {
+    ticks: { type: 'string', default: '3600' },
+    particles: { type: 'string' },
+    players: { type: 'string', default: '1' },
+    seed: { type: 'string' },
+    config: { type: 'string' },
+    replay: { type: 'string' },
+    script: { type: 'string' },
+    level: { type: 'string' },
+    sample: { type: 'string', default: '60' },
+    out: { type: 'string' }
+  }
+});
+
+function readJson(path: string): unknown {
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Config overrides may only set known fields, with the same type as the default
+function parseConfigOverrides(data: unknown, path: string): Partial<SimulationConfig> {
+  if (!isRecord(data)) {
+    throw new Error(`${path}: config overrides must be a JSON object`);
+  }
+  for (const [key, value] of Object.entries(data)) {
+    if (!(key in DEFAULT_CONFIG)) {
+      throw new Error(`${path}: unknown config field "${key}"`);
+    }
+    const expected = typeof DEFAULT_CONFIG[key as keyof SimulationConfig];
+    if (typeof value !== expected || (expected === 'number' && !Number.isFinite(value))) {
+      throw new Error(`${path}: config field "${key}" must be a ${expected}`);
+    }
+  }
+  return data as Partial<SimulationConfig>;
+}
+
+// Fields each kind of script entry takes; a trailing '?' marks an optional one
+const SCRIPT_FIELDS: Record<keyof InputScript, Record<string, string>> = {
+  keys: { from: 'number', to: 'number', player: 'number?', left: 'boolean?', right: 'boolean?', jump: 'boolean?', stick: 'boolean?' },
+  launches: { tick: 'number', x: 'number', y: 'number', velocity: 'number', player: 'number?' },
+  switches: { tick: 'number', player: 'number?' }
+};
+
+function parseInputScript(data: unknown, path: string): InputScript {
+  if (!isRecord(data)) {
+    throw new Error(`${path}: input script must be a JSON object`);
+  }
+  for (const [kind, entries] of Object.entries(data)) {
+    const fields = SCRIPT_FIELDS[kind as keyof InputScript];
+    if (!fields) {
+      throw new Error(`${path}: unknown script section "${kind}"`);
+    }
+    if (!Array.isArray(entries)) {
+      throw new Error(`${path}: "${kind}" must be an array`);
+    }
+    entries.forEach((entry: unknown, i) => {
+      if (!isRecord(entry)) {
+        throw new Error(`${path}: ${kind}[${i}] must be an object`);
+      }
+      for (const key of Object.keys(entry)) {
+        if (!(key in fields)) throw new Error(`${path}: ${kind}[${i}] has unknown field "${key}"`);
+      }
+      for (const [key, spec] of Object.entries(fields)) {
+        const type = spec.replace('?', '');
+        const value = entry[key];
+        if (value === undefined && spec.endsWith('?')) continue;
+        if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+          throw new Error(`${path}: ${kind}[${i}].${key} must be a ${type}`);
+        }
+      }
+    });
+  }
+  return data as InputScript;
+}
+
+function parseNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) {
+    throw new Error(`--${name} must be a number, got "${value}"`);
+  }
+  return n;
+}
+
+// Centroid of in-body particles (emitted ones are projectiles, not the slime)
+function bodyCentroid(engine: PhysicsEngine): Vector2 | null {
+  let x = 0, y = 0, count = 0;
+  for (const p of engine.particles) {
+    if (p.isEmitted) continue;
+    x += p.position.x;
+    y += p.position.y;
+    count++;
+  }
+  return count > 0 ? { x: x / count, y: y / count } : null;
+}
+
+function scriptedKeys(script: InputScript, tick: number, players: number): KeyboardInput[] {
+  const inputs: KeyboardInput[] = [];
+  for (let i = 0; i < players; i++) {
+    inputs.push({ left: false, right: false, jump: false, stick: false });
+  }
+  for (const range of script.keys ?? []) {
+    const input = inputs[range.player ?? 0];
+    if (!input || tick < range.from || tick >= range.to) continue;
+    input.left = input.left || !!range.left;
+    input.right = input.right || !!range.right;
+    input.jump = input.jump || !!range.jump;
+    input.stick = input.stick || !!range.stick;
+  }
+  return inputs;
+}
+
+function main() {
+  const maxTicks = parseNumber('ticks', values.ticks)!;
+  const sampleEvery = Math.max(1, parseNumber('sample', values.sample)!);
+  const players = parseNumber('players', values.players)!;
+  if (!Number.isInteger(players) || players < 1 || players > MAX_PLAYERS) {
+    throw new Error(`--players must be 1-${MAX_PLAYERS}, got "${values.players}"`);
+  }
+
+  const player = values.replay ? new ReplayPlayer(parseReplay(readFileSync(values.replay, 'utf8'))) : null;
+  const script: InputScript = values.script ? parseInputScript(readJson(values.script), values.script) : {};
+  const level = values.level ? parseLevel(readFileSync(values.level, 'utf8')) : null;
+
+  let config: SimulationConfig = player
+    ? { ...player.currentConfig }
+    : { ...DEFAULT_CONFIG, ...(values.config ? parseConfigOverrides(readJson(values.config), values.config) : {}) };
+  const particleCount = player
+    ? player.replay.particleCount
+    : parseNumber('particles', values.particles) ?? level?.spawn.particleCount ?? config.particleCount;
+  config = { ...config, particleCount };
+
+  const engine = player
+    ? player.createEngine()
+    : new PhysicsEngine(CANVAS_WIDTH, CANVAS_HEIGHT, particleCount, parseNumber('seed', values.seed) ?? createSeed(), players);
+  if (level && !player) {
+    engine.loadLevel(level, particleCount);
+  }
+
+  let tick = 0;
+  let gameOverTick: number | null = null;
+  engine.onGameStateChange = (state) => {
+    if (state.isGameOver && gameOverTick === null) {
+      gameOverTick = tick;
+    }
+  };
+
+  const launchesByTick = new Map<number, InputScript['launches']>();
+  for (const launch of script.launches ?? []) {
+    launchesByTick.set(launch.tick, [...(launchesByTick.get(launch.tick) ?? []), launch]);
+  }
+
+  const switchesByTick = new Map<number, number[]>();
+  for (const { tick, player } of script.switches ?? []) {
+    switchesByTick.set(tick, [...(switchesByTick.get(tick) ?? []), player ?? 0]);
+  }
+
+  const centroidPath: SimMetrics['centroidPath'] = [];
+  const empty: KeyboardInput[] = [];
+
+  for (; tick < maxTicks; tick++) {
+    if (tick % sampleEvery === 0) {
+      const c = bodyCentroid(engine);
+      if (c) centroidPath.push({ tick, x: c.x, y: c.y });
+    }
+
+    if (player) {
+      if (!player.step(engine)) break;
+    } else {
+      for (const launch of launchesByTick.get(tick) ?? []) {
+        engine.launchChargedParticle({ x: launch.x, y: launch.y }, launch.velocity, launch.player ?? 0);
+      }
+      for (const switcher of switchesByTick.get(tick) ?? []) {
+        engine.cycleFragment(switcher);
+      }
+      const inputs = values.script ? scriptedKeys(script, tick, players) : empty;
+      engine.step(TIME_STEP, config, null, false, inputs);
+    }
+  }
+
+  const metrics: SimMetrics = {
+    seed: engine.seed,
+    ticks: tick,
+    players: engine.playerCount,
+    particlesPerPlayer: particleCount,
+    particleCount: particleCount * engine.playerCount,
+    particlesAlive: engine.particles.count,
+    particlesEmitted: [...engine.particles].filter(p => p.isEmitted).length,
+    enemiesKilled: engine.enemies.filter(e => e.isDead).length,
+    enemiesTotal: engine.enemies.length,
+    gameOverTick,
+    fragments: engine.fragments.length,
+    centroidPath
+  };
+
+  const json = JSON.stringify(metrics, null, 2);
+  if (values.out) {
+    writeFileSync(values.out, json + '\n');
+  } else {
+    console.log(json);
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -10,7 +10,19 @@ export type SoundType =
   | 'hurt'           // 受伤 - 短促的疼痛声
   | 'gameOver'       // 游戏结束 - 失败音效
   | 'enemyHit'       // 敌人被击中
-  | 'particleDeath'; // 粒子消失
+  | 'particleDeath'  // 粒子消失
+  | 'enemyTelegraph' // 敌人蓄势 - 警告声
+  | 'enemyShoot'     // 敌人射击
+  | 'enemyPound'     // 敌人震地
+  | 'enemyCharge'    // 敌人冲撞
+  | 'bossPhase'      // 首领进入新阶段 - 咆哮
+  | 'victory'        // 胜利 - 上升的欢快和弦
+  | 'split'          // 史莱姆分裂 - 下滑的撕裂声
+  | 'merge'          // 碎片合体 - 两声上扬的咕噜
+  | 'absorb'         // 吸收材质 - 咕嘟一口
+  | 'explode'        // 爆炸粒子 - 低沉的爆裂声
+  | 'zap'            // 导电粒子 - 电弧的滋滋声
+  | 'grow';          // 吃到水滴 - 上升的琶音
 
 class AudioService {
   private context: AudioContext | null = null;
@@ -111,6 +123,42 @@ class AudioService {
         case 'particleDeath':
           this.playParticleDeathSound(now);
           break;
+        case 'enemyTelegraph':
+          this.playEnemyTelegraphSound(now);
+          break;
+        case 'enemyShoot':
+          this.playEnemyShootSound(now);
+          break;
+        case 'enemyPound':
+          this.playEnemyPoundSound(now);
+          break;
+        case 'enemyCharge':
+          this.playEnemyChargeSound(now);
+          break;
+        case 'bossPhase':
+          this.playBossPhaseSound(now);
+          break;
+        case 'victory':
+          this.playVictorySound(now);
+          break;
+        case 'split':
+          this.playSplitSound(now);
+          break;
+        case 'merge':
+          this.playMergeSound(now);
+          break;
+        case 'absorb':
+          this.playAbsorbSound(now);
+          break;
+        case 'explode':
+          this.playExplodeSound(now);
+          break;
+        case 'zap':
+          this.playZapSound(now);
+          break;
+        case 'grow':
+          this.playGrowSound(now);
+          break;
       }
     } catch (e) {
       // 静默失败，避免控制台错误
@@ -371,6 +419,166 @@ class AudioService {
     osc.stop(now + 0.15);
   }
 
+  // 分裂音效 - 带颤动的下滑音
+  private playSplitSound(now: number): void {
+    if (!this.context || !this.masterGain) return;
+
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+    const wobble = this.context.createOscillator();
+    const wobbleGain = this.context.createGain();
+
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(500, now);
+    osc.frequency.exponentialRampToValueAtTime(160, now + 0.2);
+
+    // 快速颤动，听起来像被扯开
+    wobble.frequency.value = 30;
+    wobbleGain.gain.value = 40;
+    wobble.connect(wobbleGain);
+    wobbleGain.connect(osc.frequency);
+
+    gain.gain.setValueAtTime(0.2, now);
+    gain.gain.setTargetAtTime(0, now + 0.1, 0.05);
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+
+    osc.start(now);
+    wobble.start(now);
+    osc.stop(now + 0.3);
+    wobble.stop(now + 0.3);
+  }
+
+  // 合体音效 - 两声上扬的咕噜
+  private playMergeSound(now: number): void {
+    if (!this.context || !this.masterGain) return;
+
+    [0, 0.08].forEach((delay, i) => {
+      const osc = this.context!.createOscillator();
+      const gain = this.context!.createGain();
+      const start = now + delay;
+
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(200 + i * 100, start);
+      osc.frequency.exponentialRampToValueAtTime(400 + i * 150, start + 0.08);
+
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.setTargetAtTime(0, start + 0.04, 0.03);
+
+      osc.connect(gain);
+      gain.connect(this.masterGain!);
+
+      osc.start(start);
+      osc.stop(start + 0.12);
+    });
+  }
+
+  // 吸收材质音效 - 先下沉再上扬的咕嘟声
+  private playAbsorbSound(now: number): void {
+    if (!this.context || !this.masterGain) return;
+
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(300, now);
+    osc.frequency.exponentialRampToValueAtTime(150, now + 0.08);
+    osc.frequency.exponentialRampToValueAtTime(600, now + 0.22);
+
+    gain.gain.setValueAtTime(0.25, now);
+    gain.gain.setTargetAtTime(0, now + 0.15, 0.05);
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+
+    osc.start(now);
+    osc.stop(now + 0.3);
+  }
+
+  // 爆炸音效 - 低通滤过的轰鸣
+  private playExplodeSound(now: number): void {
+    if (!this.context || !this.masterGain) return;
+
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+    const filter = this.context.createBiquadFilter();
+
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(900, now);
+    filter.frequency.exponentialRampToValueAtTime(150, now + 0.4);
+
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(140, now);
+    osc.frequency.exponentialRampToValueAtTime(25, now + 0.4);
+
+    gain.gain.setValueAtTime(0.6, now);
+    gain.gain.setTargetAtTime(0, now + 0.05, 0.12);
+
+    osc.connect(filter);
+    filter.connect(gain);
+    gain.connect(this.masterGain);
+
+    osc.start(now);
+    osc.stop(now + 0.5);
+  }
+
+  // 电弧音效 - 快速抖动的高频方波
+  private playZapSound(now: number): void {
+    if (!this.context || !this.masterGain) return;
+
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+    const jitter = this.context.createOscillator();
+    const jitterGain = this.context.createGain();
+
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(1200, now);
+    osc.frequency.exponentialRampToValueAtTime(600, now + 0.12);
+
+    jitter.type = 'square';
+    jitter.frequency.value = 60;
+    jitterGain.gain.value = 300;
+    jitter.connect(jitterGain);
+    jitterGain.connect(osc.frequency);
+
+    gain.gain.setValueAtTime(0.12, now);
+    gain.gain.setTargetAtTime(0, now + 0.08, 0.03);
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+
+    osc.start(now);
+    jitter.start(now);
+    osc.stop(now + 0.2);
+    jitter.stop(now + 0.2);
+  }
+
+  // 成长音效 - 快速上升的三个音
+  private playGrowSound(now: number): void {
+    if (!this.context || !this.masterGain) return;
+
+    const notes = [523, 659, 784]; // C5, E5, G5
+
+    notes.forEach((freq, i) => {
+      const osc = this.context!.createOscillator();
+      const gain = this.context!.createGain();
+      const start = now + i * 0.05;
+
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(freq, start);
+
+      gain.gain.setValueAtTime(0.18, start);
+      gain.gain.setTargetAtTime(0, start + 0.04, 0.03);
+
+      osc.connect(gain);
+      gain.connect(this.masterGain!);
+
+      osc.start(start);
+      osc.stop(start + 0.15);
+    });
+  }
+
   // 粒子消失音效 - 轻微的啵声
   private playParticleDeathSound(now: number): void {
     if (!this.context || !this.masterGain) return;
@@ -392,6 +600,155 @@ class AudioService {
     osc.stop(now + 0.1);
   }
 
+  // 敌人蓄势音效 - 两声短促的警告哔声
+  private playEnemyTelegraphSound(now: number): void {
+    if (!this.context || !this.masterGain) return;
+
+    [0, 0.12].forEach(offset => {
+      const osc = this.context!.createOscillator();
+      const gain = this.context!.createGain();
+
+      osc.type = 'square';
+      osc.frequency.setValueAtTime(880, now + offset);
+
+      gain.gain.setValueAtTime(0.12, now + offset);
+      gain.gain.setTargetAtTime(0, now + offset + 0.04, 0.02);
+
+      osc.connect(gain);
+      gain.connect(this.masterGain!);
+
+      osc.start(now + offset);
+      osc.stop(now + offset + 0.1);
+    });
+  }
+
+  // 敌人射击音效 - 快速下降的"咻"声
+  private playEnemyShootSound(now: number): void {
+    if (!this.context || !this.masterGain) return;
+
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(900, now);
+    osc.frequency.exponentialRampToValueAtTime(200, now + 0.12);
+
+    gain.gain.setValueAtTime(0.2, now);
+    gain.gain.setTargetAtTime(0, now + 0.03, 0.04);
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+
+    osc.start(now);
+    osc.stop(now + 0.18);
+  }
+
+  // 敌人震地音效 - 低沉的轰隆声
+  private playEnemyPoundSound(now: number): void {
+    if (!this.context || !this.masterGain) return;
+
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+    const filter = this.context.createBiquadFilter();
+
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(400, now);
+
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(90, now);
+    osc.frequency.exponentialRampToValueAtTime(30, now + 0.3);
+
+    gain.gain.setValueAtTime(0.6, now);
+    gain.gain.setTargetAtTime(0, now + 0.05, 0.1);
+
+    osc.connect(filter);
+    filter.connect(gain);
+    gain.connect(this.masterGain);
+
+    osc.start(now);
+    osc.stop(now + 0.4);
+  }
+
+  // 敌人冲撞音效 - 上升的呼啸声
+  private playEnemyChargeSound(now: number): void {
+    if (!this.context || !this.masterGain) return;
+
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(150, now);
+    osc.frequency.exponentialRampToValueAtTime(450, now + 0.25);
+
+    gain.gain.setValueAtTime(0.3, now);
+    gain.gain.setTargetAtTime(0, now + 0.15, 0.06);
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+
+    osc.start(now);
+    osc.stop(now + 0.35);
+  }
+
+  // 首领阶段音效 - 低沉颤动的咆哮
+  private playBossPhaseSound(now: number): void {
+    if (!this.context || !this.masterGain) return;
+
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+    const lfo = this.context.createOscillator();
+    const lfoGain = this.context.createGain();
+
+    // LFO 让咆哮声颤动
+    lfo.type = 'sine';
+    lfo.frequency.value = 12;
+    lfoGain.gain.value = 15;
+
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(70, now);
+    osc.frequency.linearRampToValueAtTime(110, now + 0.3);
+    osc.frequency.linearRampToValueAtTime(55, now + 0.7);
+
+    gain.gain.setValueAtTime(0, now);
+    gain.gain.linearRampToValueAtTime(0.5, now + 0.1);
+    gain.gain.setTargetAtTime(0, now + 0.5, 0.1);
+
+    lfo.connect(lfoGain);
+    lfoGain.connect(osc.frequency);
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+
+    osc.start(now);
+    lfo.start(now);
+    osc.stop(now + 0.9);
+    lfo.stop(now + 0.9);
+  }
+
+  // 胜利音效 - 上升的大三和弦琶音
+  private playVictorySound(now: number): void {
+    if (!this.context || !this.masterGain) return;
+
+    const notes = [262, 330, 392, 523]; // C4, E4, G4, C5 上升
+
+    notes.forEach((freq, i) => {
+      const osc = this.context!.createOscillator();
+      const gain = this.context!.createGain();
+
+      osc.type = 'triangle';
+      osc.frequency.setValueAtTime(freq, now + i * 0.12);
+
+      gain.gain.setValueAtTime(0, now + i * 0.12);
+      gain.gain.linearRampToValueAtTime(0.25, now + i * 0.12 + 0.03);
+      gain.gain.setTargetAtTime(0, now + i * 0.12 + (i === notes.length - 1 ? 0.5 : 0.15), 0.1);
+
+      osc.connect(gain);
+      gain.connect(this.masterGain!);
+
+      osc.start(now + i * 0.12);
+      osc.stop(now + i * 0.12 + 1.0);
+    });
+  }
+
   // 清理资源
   dispose(): void {
     this.stopCharging();
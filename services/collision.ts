@@ -0,0 +1,259 @@
+// 静态几何碰撞 - 圆形（粒子）和方块（敌人）与平台形状的窄相位检测
+// Every test returns the minimal push-out: a unit normal pointing out of the
+// platform plus the penetration depth along it.
+
+import { Vector2, PlatformShape } from '../types';
+
+export interface Contact {
+  normal: Vector2; // Unit vector pointing out of the platform
+  depth: number;   // Penetration depth along the normal
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Vertices of a shape (box corners, segment endpoints or polygon points)
+export function shapePoints(shape: PlatformShape): Vector2[] {
+  switch (shape.kind) {
+    case 'box':
+      return [
+        { x: shape.min.x, y: shape.min.y },
+        { x: shape.max.x, y: shape.min.y },
+        { x: shape.max.x, y: shape.max.y },
+        { x: shape.min.x, y: shape.max.y }
+      ];
+    case 'segment':
+      return [shape.a, shape.b];
+    case 'polygon':
+      return shape.points;
+  }
+}
+
+export function shapeBounds(shape: PlatformShape): Bounds {
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const p of shapePoints(shape)) {
+    bounds.minX = Math.min(bounds.minX, p.x);
+    bounds.minY = Math.min(bounds.minY, p.y);
+    bounds.maxX = Math.max(bounds.maxX, p.x);
+    bounds.maxY = Math.max(bounds.maxY, p.y);
+  }
+  return bounds;
+}
+
+function centroid(points: Vector2[]): Vector2 {
+  let x = 0, y = 0;
+  for (const p of points) {
+    x += p.x;
+    y += p.y;
+  }
+  return { x: x / points.length, y: y / points.length };
+}
+
+function closestPointOnSegment(p: Vector2, a: Vector2, b: Vector2): Vector2 {
+  const abx = b.x - a.x;
+  const aby = b.y - a.y;
+  const lenSq = abx * abx + aby * aby;
+  if (lenSq === 0) return { x: a.x, y: a.y };
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * abx + (p.y - a.y) * aby) / lenSq));
+  return { x: a.x + abx * t, y: a.y + aby * t };
+}
+
+// Unit normal of each non-degenerate edge (with its start point), oriented away from the centroid
+function outwardNormals(points: Vector2[]): { point: Vector2; normal: Vector2 }[] {
+  const c = centroid(points);
+  const normals: { point: Vector2; normal: Vector2 }[] = [];
+  const edgeCount = points.length === 2 ? 1 : points.length;
+  for (let i = 0; i < edgeCount; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    let nx = b.y - a.y;
+    let ny = a.x - b.x;
+    const len = Math.sqrt(nx * nx + ny * ny);
+    if (len === 0) continue;
+    nx /= len;
+    ny /= len;
+    if ((a.x - c.x) * nx + (a.y - c.y) * ny < 0) {
+      nx = -nx;
+      ny = -ny;
+    }
+    normals.push({ point: a, normal: { x: nx, y: ny } });
+  }
+  return normals;
+}
+
+// Push a circle out of whichever point of a set of edges is closest
+function circleVsClosestEdge(center: Vector2, radius: number, points: Vector2[], fallbackNormal: Vector2): Contact | null {
+  let best: Vector2 | null = null;
+  let bestDistSq = Infinity;
+  const edgeCount = points.length === 2 ? 1 : points.length;
+  for (let i = 0; i < edgeCount; i++) {
+    const q = closestPointOnSegment(center, points[i], points[(i + 1) % points.length]);
+    const dx = center.x - q.x;
+    const dy = center.y - q.y;
+    const distSq = dx * dx + dy * dy;
+    if (distSq < bestDistSq) {
+      bestDistSq = distSq;
+      best = q;
+    }
+  }
+
+  if (!best || bestDistSq >= radius * radius) return null;
+
+  const dist = Math.sqrt(bestDistSq);
+  if (dist < 1e-9) {
+    return { normal: fallbackNormal, depth: radius };
+  }
+  return {
+    normal: { x: (center.x - best.x) / dist, y: (center.y - best.y) / dist },
+    depth: radius - dist
+  };
+}
+
+// Circle vs circle; the normal points from b toward a
+export function collideCircles(a: Vector2, radiusA: number, b: Vector2, radiusB: number): Contact | null {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const distSq = dx * dx + dy * dy;
+  const reach = radiusA + radiusB;
+  if (distSq >= reach * reach) return null;
+  const dist = Math.sqrt(distSq);
+  if (dist < 1e-9) return { normal: { x: 0, y: -1 }, depth: reach };
+  return { normal: { x: dx / dist, y: dy / dist }, depth: reach - dist };
+}
+
+// Circle (particle) vs any platform shape
+export function collideCircle(center: Vector2, radius: number, shape: PlatformShape): Contact | null {
+  switch (shape.kind) {
+    case 'box': {
+      const { min, max } = shape;
+      if (center.x < min.x - radius || center.x > max.x + radius ||
+          center.y < min.y - radius || center.y > max.y + radius) {
+        return null;
+      }
+
+      const inside = center.x > min.x && center.x < max.x && center.y > min.y && center.y < max.y;
+      if (!inside) {
+        return circleVsClosestEdge(center, radius, shapePoints(shape), { x: 0, y: -1 });
+      }
+
+      // Center inside the box: leave through the nearest side
+      const distances = [
+        { d: center.x - min.x, normal: { x: -1, y: 0 } },
+        { d: max.x - center.x, normal: { x: 1, y: 0 } },
+        { d: center.y - min.y, normal: { x: 0, y: -1 } },
+        { d: max.y - center.y, normal: { x: 0, y: 1 } }
+      ];
+      let nearest = distances[0];
+      for (const side of distances) {
+        if (side.d < nearest.d) nearest = side;
+      }
+      return { normal: nearest.normal, depth: nearest.d + radius };
+    }
+
+    case 'segment': {
+      // Degenerate hits (center exactly on the line) resolve upward-ish along the segment normal
+      const normal = outwardNormals([shape.a, shape.b])[0]?.normal ?? { x: 0, y: -1 };
+      const fallback = normal.y > 0 ? { x: -normal.x, y: -normal.y } : normal;
+      return circleVsClosestEdge(center, radius, [shape.a, shape.b], fallback);
+    }
+
+    case 'polygon': {
+      const points = shape.points;
+      if (points.length < 3) return null;
+
+      // Separating axis test against each edge; track the least-penetrated face
+      let maxSeparation = -Infinity;
+      let faceNormal: Vector2 = { x: 0, y: -1 };
+      for (const { point: a, normal: n } of outwardNormals(points)) {
+        const separation = (center.x - a.x) * n.x + (center.y - a.y) * n.y;
+        if (separation > radius) return null;
+        if (separation > maxSeparation) {
+          maxSeparation = separation;
+          faceNormal = n;
+        }
+      }
+
+      if (maxSeparation <= 0) {
+        // Center inside the polygon: leave through the closest face
+        return { normal: faceNormal, depth: radius - maxSeparation };
+      }
+      // Center outside: the closest point may be a vertex
+      return circleVsClosestEdge(center, radius, points, faceNormal);
+    }
+  }
+}
+
+function project(points: Vector2[], axis: Vector2): [number, number] {
+  let min = Infinity, max = -Infinity;
+  for (const p of points) {
+    const d = p.x * axis.x + p.y * axis.y;
+    if (d < min) min = d;
+    if (d > max) max = d;
+  }
+  return [min, max];
+}
+
+// Axis-aligned box (enemy) vs any platform shape, via the separating axis theorem
+export function collideBox(center: Vector2, halfWidth: number, halfHeight: number, shape: PlatformShape): Contact | null {
+  const box: Vector2[] = [
+    { x: center.x - halfWidth, y: center.y - halfHeight },
+    { x: center.x + halfWidth, y: center.y - halfHeight },
+    { x: center.x + halfWidth, y: center.y + halfHeight },
+    { x: center.x - halfWidth, y: center.y + halfHeight }
+  ];
+  const other = shapePoints(shape);
+  if (other.length < 2) return null;
+
+  const axes = [{ x: 1, y: 0 }, { x: 0, y: 1 }, ...outwardNormals(other).map(edge => edge.normal)];
+  const otherCenter = centroid(other);
+
+  let best: Contact | null = null;
+  for (const axis of axes) {
+    const [minA, maxA] = project(box, axis);
+    const [minB, maxB] = project(other, axis);
+    const overlap = Math.min(maxA, maxB) - Math.max(minA, minB);
+    if (overlap <= 0) return null;
+
+    if (!best || overlap < best.depth) {
+      // Point the normal from the platform toward the box
+      const side = (center.x - otherCenter.x) * axis.x + (center.y - otherCenter.y) * axis.y;
+      best = {
+        normal: side < 0 ? { x: -axis.x, y: -axis.y } : { x: axis.x, y: axis.y },
+        depth: overlap
+      };
+    }
+  }
+  return best;
+}
+
+// Push a body out along the contact and reflect/damp its velocity.
+// frictionFactor is the fraction of tangential velocity kept this step.
+// Returns the normal impact speed (0 if the body was already separating).
+export function resolveContact(
+  position: Vector2,
+  velocity: Vector2,
+  contact: Contact,
+  restitution: number,
+  frictionFactor: number
+): number {
+  const { normal, depth } = contact;
+  position.x += normal.x * depth;
+  position.y += normal.y * depth;
+
+  const vn = velocity.x * normal.x + velocity.y * normal.y;
+  let vtx = velocity.x - vn * normal.x;
+  let vty = velocity.y - vn * normal.y;
+  vtx *= frictionFactor;
+  vty *= frictionFactor;
+
+  // Only bounce when moving into the surface
+  const vnAfter = vn < 0 ? -vn * restitution : vn;
+  velocity.x = vtx + vnAfter * normal.x;
+  velocity.y = vty + vnAfter * normal.y;
+
+  return vn < 0 ? -vn : 0;
+}
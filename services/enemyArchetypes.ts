@@ -0,0 +1,201 @@
+// 敌人原型 - 各种敌人的外形、碰撞形状、数值与外观
+// Shapes are centered on the enemy's position and scaled by its size: a box
+// is size × size, a circle has diameter size and polygon points (unit radius)
+// are multiplied by size / 2. Level geometry still pushes every enemy out as
+// a size × size box; the shape only decides what touches the slime.
+
+import { BossPhase, Enemy, EnemyArchetypeId, EnemyAttack, EnemyBehavior, Vector2 } from '../types';
+import { Contact, collideCircle, collideCircles } from './collision';
+import { ENEMY_SIZE, ENEMY_SPEED, ENEMY_DAMAGE, ENEMY_COLOR, ENEMY_MAX_HEALTH, ENEMY_MASS, DEFAULT_ENEMY_ATTACKS } from '../constants';
+
+export type EnemyShape =
+  | { kind: 'box' }
+  | { kind: 'circle' }
+  | { kind: 'polygon'; points: Vector2[] }; // Convex, unit radius
+
+export interface EnemyArchetype {
+  name: string;   // Shown in the level editor
+  shape: EnemyShape;
+  size: number;
+  health: number;
+  damage: number; // Contact damage to the slime
+  speed: number;  // Patrol speed
+  mass: number;   // In particle masses; heavier enemies shrug off shots and shoves
+  color: string;
+  outline: string;
+  invulnerable: boolean; // Shots burst on it without doing damage
+  armor: number;         // Shots slower than this bounce off (0 = none)
+  behavior: Partial<EnemyBehavior>; // Changes to the plain patrol defaults
+  attack: EnemyAttack | null;
+  boss: boolean;        // Beating it wins the level
+  drop: number;         // Size of the droplet it leaves when beaten, in new slime particles (0 = none)
+  phases: BossPhase[];  // Later stages of the fight, by falling health
+}
+
+// Regular polygon with unit radius, first corner pointing straight up
+function regularPolygon(corners: number): Vector2[] {
+  const points: Vector2[] = [];
+  for (let i = 0; i < corners; i++) {
+    const angle = -Math.PI / 2 + (i / corners) * Math.PI * 2;
+    points.push({ x: Math.cos(angle), y: Math.sin(angle) });
+  }
+  return points;
+}
+
+export const ENEMY_ARCHETYPES: Record<EnemyArchetypeId, EnemyArchetype> = {
+  // The original red square
+  brute: {
+    name: '方块蛮兵',
+    shape: { kind: 'box' },
+    size: ENEMY_SIZE,
+    health: ENEMY_MAX_HEALTH,
+    damage: ENEMY_DAMAGE,
+    speed: ENEMY_SPEED,
+    mass: ENEMY_MASS,
+    color: ENEMY_COLOR,
+    outline: '#b91c1c', // Tailwind red-700
+    invulnerable: false,
+    armor: 0,
+    behavior: {},
+    attack: DEFAULT_ENEMY_ATTACKS.charge,
+    boss: false,
+    drop: 3,
+    phases: []
+  },
+  bouncer: {
+    name: '弹跳球',
+    shape: { kind: 'circle' },
+    size: 36,
+    health: 35,
+    damage: 8,
+    speed: 100,
+    mass: 6,
+    color: '#3b82f6',   // Tailwind blue-500
+    outline: '#1d4ed8', // Tailwind blue-700
+    invulnerable: false,
+    armor: 0,
+    behavior: { jumpInterval: 1.2, jumpHeight: 70 },
+    attack: DEFAULT_ENEMY_ATTACKS.pound,
+    boss: false,
+    drop: 2,
+    phases: []
+  },
+  // A hazard to steer around: drawn with spikes on its corners, cannot be hurt
+  spiky: {
+    name: '尖刺',
+    shape: { kind: 'polygon', points: regularPolygon(8) },
+    size: 36,
+    health: 1,
+    damage: 15,
+    speed: 40,
+    mass: 15,
+    color: '#7c3aed',   // Tailwind violet-600
+    outline: '#4c1d95', // Tailwind violet-900
+    invulnerable: true,
+    armor: 0,
+    behavior: {},
+    attack: null,
+    boss: false,
+    drop: 0,
+    phases: []
+  },
+  // Only fully charged shots get through
+  armored: {
+    name: '铁甲',
+    shape: { kind: 'polygon', points: regularPolygon(6) },
+    size: 44,
+    health: 80,
+    damage: 12,
+    speed: 55,
+    mass: 25,
+    color: '#64748b',   // Tailwind slate-500
+    outline: '#1e293b', // Tailwind slate-800
+    invulnerable: false,
+    armor: 700,
+    behavior: {},
+    attack: DEFAULT_ENEMY_ATTACKS.shoot,
+    boss: false,
+    drop: 5,
+    phases: []
+  },
+  // End-of-level fight: stomps around, then shoots, then charges, calling in
+  // help as it weakens
+  boss: {
+    name: '史莱姆克星',
+    shape: { kind: 'box' },
+    size: 84,
+    health: 400,
+    damage: 20,
+    speed: 50,
+    mass: 80,
+    color: '#be123c',   // Tailwind rose-700
+    outline: '#881337', // Tailwind rose-900
+    invulnerable: false,
+    armor: 0,
+    behavior: { sightRange: 450, chaseSpeed: 60 },
+    attack: { kind: 'pound', range: 220, cooldown: 3, windup: 0.8, damage: 15, speed: 240 },
+    boss: true,
+    drop: 0,
+    phases: [
+      {
+        healthBelow: 0.6,
+        speed: 70,
+        behavior: { sightRange: 700, chaseSpeed: 90, jumpInterval: 3, jumpHeight: 90 },
+        attack: { kind: 'shoot', range: 500, cooldown: 1.5, windup: 0.5, damage: 12, speed: 380 },
+        minions: ['bouncer', 'bouncer']
+      },
+      {
+        healthBelow: 0.3,
+        speed: 90,
+        behavior: { sightRange: 1000, chaseSpeed: 130, jumpInterval: 0 },
+        attack: { kind: 'charge', range: 320, cooldown: 2, windup: 0.5, damage: 25, speed: 480 },
+        minions: ['brute', 'bouncer', 'brute']
+      }
+    ]
+  }
+};
+
+export const ENEMY_ARCHETYPE_IDS = Object.keys(ENEMY_ARCHETYPES) as EnemyArchetypeId[];
+
+export function isEnemyArchetype(value: unknown): value is EnemyArchetypeId {
+  return typeof value === 'string' && value in ENEMY_ARCHETYPES;
+}
+
+// Polygon corners in world space (box corners for boxes); empty for circles
+export function enemyOutline(archetype: EnemyArchetypeId, position: Vector2, size: number): Vector2[] {
+  const shape = ENEMY_ARCHETYPES[archetype].shape;
+  const half = size / 2;
+  switch (shape.kind) {
+    case 'box':
+      return [
+        { x: position.x - half, y: position.y - half },
+        { x: position.x + half, y: position.y - half },
+        { x: position.x + half, y: position.y + half },
+        { x: position.x - half, y: position.y + half }
+      ];
+    case 'circle':
+      return [];
+    case 'polygon':
+      return shape.points.map(p => ({ x: position.x + p.x * half, y: position.y + p.y * half }));
+  }
+}
+
+// Circle (particle) vs an enemy's shape; the normal points out of the enemy
+export function collideEnemy(enemy: Enemy, center: Vector2, radius: number): Contact | null {
+  const half = enemy.size / 2;
+  switch (ENEMY_ARCHETYPES[enemy.archetype].shape.kind) {
+    case 'box':
+      return collideCircle(center, radius, {
+        kind: 'box',
+        min: { x: enemy.position.x - half, y: enemy.position.y - half },
+        max: { x: enemy.position.x + half, y: enemy.position.y + half }
+      });
+    case 'circle':
+      return collideCircles(center, radius, enemy.position, half);
+    case 'polygon':
+      return collideCircle(center, radius, {
+        kind: 'polygon',
+        points: enemyOutline(enemy.archetype, enemy.position, enemy.size)
+      });
+  }
+}
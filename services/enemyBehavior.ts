@@ -0,0 +1,202 @@
+// 敌人行为 - 每个敌人一个小状态机，状态处理器按名称注册，可替换或扩展
+// Every tick the transitions all states share are checked first (hop when the
+// jump timer runs out, flee when badly hurt, wind up an attack when the slime
+// is in range, chase while it is in sight, otherwise fall back to the enemy's
+// own routine), then the handler of
+// the current state steers the enemy and may pick the next state itself.
+// Behaviors only choose a walking speed and when to hop; the engine
+// integrates the enemy's velocity under gravity and collides it, so chasing
+// and fleeing are horizontal only.
+
+import { Enemy, EnemyAttack, EnemyBehavior, EnemyState, Vector2 } from '../types';
+import { ENEMY_GRAVITY } from '../constants';
+
+// What a behavior can see of the world and do in it
+export interface EnemyWorld {
+  target: Vector2 | null; // Center of the slime's body, null when there is none
+  telegraph(enemy: Enemy): void; // An attack starts winding up
+  strike(enemy: Enemy): void;    // The wind-up is over: shoot, pound or start the dash
+}
+
+export interface EnemyStateHandler {
+  enter?(enemy: Enemy, world: EnemyWorld): void;
+  // Returns the state for the next tick
+  update(enemy: Enemy, world: EnemyWorld, dt: number): EnemyState;
+}
+
+// A chase ends a little further out than it starts, so enemies at the edge of
+// their sight range don't flip between states every tick
+const SIGHT_HYSTERESIS = 1.25;
+// Close enough to a patrol point or the slime to stop walking toward it
+const ARRIVE_DISTANCE = 5;
+
+// Walk horizontally toward (direction 1) or away from (-1) a point
+function walkRelativeTo(enemy: Enemy, target: Vector2, speed: number, direction: number) {
+  const dx = target.x - enemy.position.x;
+  if (direction > 0 && Math.abs(dx) < ARRIVE_DISTANCE) {
+    enemy.walkVelocity = 0;
+    return;
+  }
+  enemy.walkVelocity = Math.sign(dx || 1) * direction * speed;
+}
+
+export const ENEMY_STATE_HANDLERS: Record<EnemyState, EnemyStateHandler> = {
+  // Walk the patrol points in order, looping
+  patrol: {
+    update(enemy) {
+      const target = enemy.patrolPoints[enemy.currentPatrolIndex];
+      const dx = target.x - enemy.position.x;
+
+      if (Math.abs(dx) > ARRIVE_DISTANCE) {
+        // Something blocked the last step toward the point; turn around
+        if (enemy.blocked && Math.sign(enemy.walkVelocity) === Math.sign(dx)) {
+          enemy.currentPatrolIndex = (enemy.currentPatrolIndex + 1) % enemy.patrolPoints.length;
+          enemy.walkVelocity = 0;
+          return 'patrol';
+        }
+        enemy.walkVelocity = Math.sign(dx) * enemy.patrolSpeed;
+        return 'patrol';
+      }
+
+      // Reached target, move to next point (after a rest, if the enemy takes one)
+      enemy.currentPatrolIndex = (enemy.currentPatrolIndex + 1) % enemy.patrolPoints.length;
+      return enemy.behavior.idleTime > 0 ? 'idle' : 'patrol';
+    }
+  },
+
+  // Stand still; patrolling enemies carry on once the rest is over
+  idle: {
+    enter(enemy) {
+      enemy.walkVelocity = 0;
+    },
+    update(enemy) {
+      const { initialState, idleTime } = enemy.behavior;
+      return initialState === 'patrol' && enemy.stateTime >= idleTime ? 'patrol' : 'idle';
+    }
+  },
+
+  chase: {
+    update(enemy, world) {
+      if (world.target) {
+        walkRelativeTo(enemy, world.target, enemy.behavior.chaseSpeed, 1);
+      }
+      return 'chase';
+    }
+  },
+
+  flee: {
+    update(enemy, world) {
+      if (world.target) {
+        walkRelativeTo(enemy, world.target, enemy.behavior.fleeSpeed, -1);
+      }
+      return 'flee';
+    }
+  },
+
+  // Ballistic hop, keeping the walking speed it had on takeoff
+  jump: {
+    enter(enemy) {
+      enemy.velocity.y = -Math.sqrt(2 * ENEMY_GRAVITY * enemy.behavior.jumpHeight);
+      enemy.jumpTimer = enemy.behavior.jumpInterval;
+    },
+    // Over once it is back on its feet, wherever it came down
+    update(enemy) {
+      return enemy.grounded && enemy.velocity.y >= 0 ? enemy.behavior.initialState : 'jump';
+    }
+  },
+
+  // Stand still and telegraph the attack, aimed where the slime was when it began
+  windup: {
+    enter(enemy, world) {
+      enemy.walkVelocity = 0;
+      if (world.target) {
+        const dx = world.target.x - enemy.position.x;
+        const dy = world.target.y - enemy.position.y;
+        const length = Math.hypot(dx, dy) || 1;
+        enemy.aim = { x: dx / length, y: dy / length };
+      }
+      world.telegraph(enemy);
+    },
+    update(enemy, world) {
+      const attack = enemy.attack;
+      if (!attack) return enemy.behavior.initialState;
+      if (enemy.stateTime < attack.windup) return 'windup';
+
+      world.strike(enemy);
+      enemy.attackTimer = attack.cooldown;
+      return attack.kind === 'charge' ? 'charge' : enemy.behavior.initialState;
+    }
+  },
+
+  // Dash along the aim until it has covered the attack's range or hits something
+  charge: {
+    enter(enemy) {
+      const speed = enemy.attack?.speed ?? 0;
+      enemy.walkVelocity = Math.sign(enemy.aim.x || 1) * speed;
+      enemy.velocity.x = enemy.walkVelocity;
+    },
+    update(enemy) {
+      const attack = enemy.attack;
+      const duration = attack && attack.speed > 0 ? attack.range / attack.speed : 0;
+      if (enemy.stateTime >= duration || enemy.blocked) {
+        enemy.walkVelocity = 0;
+        return enemy.behavior.initialState;
+      }
+      return 'charge';
+    }
+  }
+};
+
+// Fresh state-machine fields for an enemy spawning with this behavior
+export function spawnBehaviorState(behavior: EnemyBehavior, attack: EnemyAttack | null): Pick<Enemy, 'state' | 'stateTime' | 'jumpTimer' | 'attack' | 'attackTimer' | 'aim'> {
+  return {
+    state: behavior.initialState,
+    stateTime: 0,
+    jumpTimer: behavior.jumpInterval,
+    attack: attack && { ...attack },
+    // A full cooldown first, so nothing attacks the moment a level starts
+    attackTimer: attack?.cooldown ?? 0,
+    aim: { x: 1, y: 0 }
+  };
+}
+
+// Transitions shared by every state; hops land and attacks play out before
+// anything else happens
+function chooseState(enemy: Enemy, world: EnemyWorld): EnemyState {
+  const behavior = enemy.behavior;
+  if (enemy.state === 'jump' || enemy.state === 'windup' || enemy.state === 'charge') return enemy.state;
+
+  // Only hops off solid ground; a knocked-back enemy waits until it lands
+  if (behavior.jumpInterval > 0 && enemy.jumpTimer <= 0 && enemy.grounded) return 'jump';
+  if (behavior.fleeBelow > 0 && enemy.health < enemy.maxHealth * behavior.fleeBelow) return 'flee';
+
+  const distance = world.target
+    ? Math.hypot(world.target.x - enemy.position.x, world.target.y - enemy.position.y)
+    : Infinity;
+  if (enemy.attack && enemy.attackTimer <= 0 && enemy.grounded && distance < enemy.attack.range) return 'windup';
+  if (behavior.sightRange > 0) {
+    const range = enemy.state === 'chase' ? behavior.sightRange * SIGHT_HYSTERESIS : behavior.sightRange;
+    if (distance < range) return 'chase';
+  }
+
+  // Lost sight of the slime: back to its own routine
+  if (enemy.state === 'chase' || enemy.state === 'flee') return behavior.initialState;
+  return enemy.state;
+}
+
+function setState(enemy: Enemy, world: EnemyWorld, state: EnemyState) {
+  if (enemy.state === state) return;
+  enemy.state = state;
+  enemy.stateTime = 0;
+  ENEMY_STATE_HANDLERS[state].enter?.(enemy, world);
+}
+
+// Advance one enemy's state machine by one tick; the engine moves it afterwards
+export function updateEnemyBehavior(enemy: Enemy, world: EnemyWorld, dt: number) {
+  if (enemy.jumpTimer > 0) enemy.jumpTimer -= dt;
+  if (enemy.attackTimer > 0) enemy.attackTimer -= dt;
+  enemy.stateTime += dt;
+
+  setState(enemy, world, chooseState(enemy, world));
+  setState(enemy, world, ENEMY_STATE_HANDLERS[enemy.state].update(enemy, world, dt));
+}
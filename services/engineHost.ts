@@ -0,0 +1,106 @@
+// 引擎宿主 - 优先在 Web Worker 中运行物理，不可用时退回到主线程
+// Both hosts speak the protocol in engineProtocol.ts; the UI never touches
+// the PhysicsEngine directly.
+
+import { HostCommand, HostEvent } from './engineProtocol';
+import { SimulationRunner, runSimulationClock } from './simulationRunner';
+
+export interface EngineHost {
+  readonly inWorker: boolean;
+  onEvent?: (event: HostEvent) => void;
+  send(command: HostCommand): void;
+  dispose(): void;
+}
+
+// Runs the simulation on the main thread (no Worker support, or the worker failed to start)
+export class LocalEngineHost implements EngineHost {
+  readonly inWorker = false;
+  onEvent?: (event: HostEvent) => void;
+  private runner: SimulationRunner;
+  private stopClock: () => void;
+
+  constructor() {
+    this.runner = new SimulationRunner(event => this.onEvent?.(event));
+    this.stopClock = runSimulationClock(this.runner);
+  }
+
+  send(command: HostCommand) {
+    this.runner.handle(command);
+  }
+
+  dispose() {
+    this.stopClock();
+  }
+}
+
+// Runs the simulation in a dedicated worker. If the worker dies before it has
+// said anything, the host switches to a LocalEngineHost and replays the
+// commands that describe the current session.
+export class WorkerEngineHost implements EngineHost {
+  onEvent?: (event: HostEvent) => void;
+  private worker: Worker | null;
+  private fallback: LocalEngineHost | null = null;
+  private started: boolean = false;
+  private sessionCommands: Map<HostCommand['type'], HostCommand> = new Map();
+
+  constructor() {
+    this.worker = new Worker(new URL('./physicsWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<HostEvent>) => {
+      this.started = true;
+      this.onEvent?.(e.data);
+    };
+    this.worker.onerror = (e) => {
+      if (this.started) {
+        console.debug('Physics worker error:', e.message);
+        return;
+      }
+      e.preventDefault();
+      this.switchToFallback();
+    };
+  }
+
+  get inWorker(): boolean {
+    return this.fallback === null;
+  }
+
+  send(command: HostCommand) {
+    if (command.type === 'init' || command.type === 'config' || command.type === 'pause' || command.type === 'input') {
+      this.sessionCommands.set(command.type, command);
+    }
+    if (this.fallback) {
+      this.fallback.send(command);
+    } else {
+      this.worker?.postMessage(command);
+    }
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.fallback?.dispose();
+  }
+
+  private switchToFallback() {
+    console.debug('Physics worker unavailable, running physics on the main thread');
+    this.worker?.terminate();
+    this.worker = null;
+    const fallback = new LocalEngineHost();
+    fallback.onEvent = event => this.onEvent?.(event);
+    this.fallback = fallback;
+    for (const type of ['init', 'config', 'pause', 'input'] as const) {
+      const command = this.sessionCommands.get(type);
+      if (command) fallback.send(command);
+    }
+  }
+}
+
+export function createEngineHost(preferWorker: boolean = true): EngineHost {
+  if (preferWorker && typeof Worker !== 'undefined') {
+    try {
+      return new WorkerEngineHost();
+    } catch (err) {
+      console.debug('Could not start physics worker:', err);
+    }
+  }
+  return new LocalEngineHost();
+}
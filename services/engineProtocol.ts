@@ -0,0 +1,267 @@
+// 引擎消息协议 - 渲染线程与物理线程（Web Worker 或同线程后备）之间的消息格式
+// Commands flow from the UI to the simulation, events flow back. Per-tick
+// particle, enemy and projectile state travels as flat Float32Arrays so the
+// worker can transfer the buffers instead of copying them.
+
+import { SimulationConfig, KeyboardInput, Vector2, LevelDefinition, LevelBackground, Platform, Particle, MaterialId, MaterialPickup, Droplet, Enemy, EnemyAttackKind, EnemyProjectile } from '../types';
+import { SoundEvent, GameStateEvent } from './physicsEngine';
+import { EngineSnapshot } from './snapshot';
+import { ReplayFile, ReplayMode } from './replay';
+import { ParticleStore } from './particleStore';
+import { SpringNetwork } from './springNetwork';
+import { MATERIAL_IDS } from './materials';
+
+// --- UI -> simulation ---
+
+export type HostCommand =
+  | { type: 'init'; particleCount: number; players: number; level: LevelDefinition | null; config: SimulationConfig }
+  | { type: 'config'; config: SimulationConfig }
+  | { type: 'input'; keys: KeyboardInput[]; mouse: Vector2 | null } // keys[n] is player n's
+  | { type: 'pause'; paused: boolean }
+  | { type: 'chargeStart' }
+  | { type: 'chargeCancel' }
+  | { type: 'launch'; target: Vector2; velocity: number; player: number }
+  | { type: 'switchFragment'; player: number } // Steer the player's next slime fragment
+  | { type: 'reset' }
+  | { type: 'startRecording' }
+  | { type: 'stopRecording' }
+  | { type: 'loadReplay'; text: string }
+  | { type: 'togglePlayback' }
+  | { type: 'seek'; tick: number }
+  | { type: 'exitPlayback' }
+  | { type: 'save'; slot: string }
+  | { type: 'load'; slot: string; snapshot: EngineSnapshot };
+
+// --- simulation -> UI ---
+
+// Everything that only changes when the world is rebuilt (new engine, reset, load)
+// How an enemy is drawn; fixed for its lifetime, so sent with the world instead of every frame
+export type EnemyStyle = Pick<Enemy, 'color' | 'archetype'> & { attack: EnemyAttackKind | null };
+
+export interface WorldInfo {
+  width: number;
+  height: number;
+  seed: number;
+  platforms: Platform[];
+  background: LevelBackground | null; // null = classic canvas
+  enemyStyles: [number, EnemyStyle][]; // [enemyId, look]
+}
+
+// A slime fragment's label; the particles carry everything else
+export interface RenderFragment {
+  owner: number;
+  name: string;
+  center: Vector2;
+  controlled: boolean; // Steered by its player
+}
+
+export interface FrameData {
+  particles: Float32Array; // PARTICLE_STRIDE floats per particle
+  enemies: Float32Array;   // ENEMY_STRIDE floats per living enemy
+  projectiles: Float32Array; // PROJECTILE_STRIDE floats per enemy projectile
+  springs: Float32Array;   // SPRING_STRIDE floats per spring, empty unless jelly mode is on
+  invincibleTimes: number[]; // Each slime's invincibility left in seconds (rendered as blinking)
+  fragments: RenderFragment[];
+  pickups: MaterialPickup[]; // Not yet absorbed
+  droplets: Droplet[];       // Not yet eaten
+  replayTick: number;      // Recorder or player tick, 0 when live
+  playback: { chargeLevel: number | null; mouse: Vector2 | null; paused: boolean } | null;
+}
+
+export type HostEvent =
+  | ({ type: 'frame' } & FrameData)
+  | { type: 'world'; world: WorldInfo }
+  | { type: 'sound'; event: SoundEvent }
+  | { type: 'gameState'; state: GameStateEvent }
+  | { type: 'replayMode'; mode: ReplayMode; tickCount: number }
+  | { type: 'recording'; replay: ReplayFile }
+  | { type: 'snapshot'; slot: string; snapshot: EngineSnapshot }
+  | { type: 'loaded'; slot: string }
+  | { type: 'error'; scope: 'replay' | 'save' | 'load'; message: string };
+
+// --- Frame encoding ---
+
+// Particle layout: id, x, y, vx, vy, flags (eye, emitted, owner above them),
+// life (health / maxHealth of launched particles, 1 otherwise), material (index into MATERIAL_IDS)
+export const PARTICLE_STRIDE = 8;
+// Enemy layout: id, x, y, size, health, maxHealth, telegraph (share of the
+// wind-up done, 0 when not winding up), aimX, aimY, charging (1 or 0)
+export const ENEMY_STRIDE = 10;
+// Projectile layout: id, x, y, radius, kind (0 bullet, 1 shockwave), direction (sign of vx)
+export const PROJECTILE_STRIDE = 6;
+// Spring layout: particleIdA, particleIdB, stretch (length / rest length)
+export const SPRING_STRIDE = 3;
+
+const FLAG_EYE = 1;
+const FLAG_EMITTED = 2;
+const OWNER_SHIFT = 2;
+
+// Copied straight out of the packed store, in slot order
+export function encodeParticles(store: ParticleStore): Float32Array {
+  const data = new Float32Array(store.count * PARTICLE_STRIDE);
+  for (let i = 0; i < store.count; i++) {
+    const o = i * PARTICLE_STRIDE;
+    data[o] = store.handles[i];
+    data[o + 1] = store.x[i];
+    data[o + 2] = store.y[i];
+    data[o + 3] = store.vx[i];
+    data[o + 4] = store.vy[i];
+    data[o + 5] = (store.isEye(i) ? FLAG_EYE : 0) | (store.isEmitted(i) ? FLAG_EMITTED : 0) | (store.owner[i] << OWNER_SHIFT);
+    data[o + 6] = store.isEmitted(i) ? Math.max(0, store.health[i] / store.maxHealth[i]) : 1;
+    data[o + 7] = store.material[i];
+  }
+  return data;
+}
+
+export function encodeEnemies(enemies: Enemy[]): Float32Array {
+  const alive = enemies.filter(e => !e.isDead);
+  const data = new Float32Array(alive.length * ENEMY_STRIDE);
+  for (let i = 0; i < alive.length; i++) {
+    const e = alive[i];
+    const o = i * ENEMY_STRIDE;
+    data[o] = e.id;
+    data[o + 1] = e.position.x;
+    data[o + 2] = e.position.y;
+    data[o + 3] = e.size;
+    data[o + 4] = e.health;
+    data[o + 5] = e.maxHealth;
+    data[o + 6] = e.state === 'windup' && e.attack ? Math.min(e.stateTime / (e.attack.windup || 1), 1) : 0;
+    data[o + 7] = e.aim.x;
+    data[o + 8] = e.aim.y;
+    data[o + 9] = e.state === 'charge' ? 1 : 0;
+  }
+  return data;
+}
+
+export function encodeProjectiles(projectiles: EnemyProjectile[]): Float32Array {
+  const data = new Float32Array(projectiles.length * PROJECTILE_STRIDE);
+  for (let i = 0; i < projectiles.length; i++) {
+    const p = projectiles[i];
+    const o = i * PROJECTILE_STRIDE;
+    data[o] = p.id;
+    data[o + 1] = p.position.x;
+    data[o + 2] = p.position.y;
+    data[o + 3] = p.radius;
+    data[o + 4] = p.kind === 'shockwave' ? 1 : 0;
+    data[o + 5] = Math.sign(p.velocity.x);
+  }
+  return data;
+}
+
+export function encodeSprings(springs: SpringNetwork, store: ParticleStore): Float32Array {
+  const data = new Float32Array(springs.count * SPRING_STRIDE);
+  let o = 0;
+  springs.forEach((a, b, restLength) => {
+    const slotA = store.slotOf(a);
+    const slotB = store.slotOf(b);
+    data[o] = a;
+    data[o + 1] = b;
+    data[o + 2] = slotA < 0 || slotB < 0
+      ? 1
+      : Math.hypot(store.x[slotB] - store.x[slotA], store.y[slotB] - store.y[slotA]) / restLength;
+    o += SPRING_STRIDE;
+  });
+  return data;
+}
+
+// --- Frame decoding (render side) ---
+
+export type RenderParticle = Pick<Particle, 'id' | 'position' | 'velocity' | 'type' | 'isEmitted'> & { life: number; owner: number; material: MaterialId };
+export type RenderEnemy = Pick<Enemy, 'id' | 'position' | 'size' | 'health' | 'maxHealth' | 'color' | 'archetype' | 'aim'> & {
+  attack: EnemyAttackKind | null;
+  telegraph: number;
+  charging: boolean;
+};
+export type RenderProjectile = Pick<EnemyProjectile, 'id' | 'kind' | 'position' | 'radius'> & { direction: number };
+
+// id -> float offset of each record, used to pair records across frames
+export function indexById(data: Float32Array, stride: number): Map<number, number> {
+  const index = new Map<number, number>();
+  for (let o = 0; o < data.length; o += stride) {
+    index.set(data[o], o);
+  }
+  return index;
+}
+
+// Position blended from the previous frame toward the current one
+function blend(current: Float32Array, o: number, previous: Float32Array | null, prevOffset: number | undefined, alpha: number): Vector2 {
+  const x = current[o + 1];
+  const y = current[o + 2];
+  if (!previous || prevOffset === undefined) return { x, y };
+  const px = previous[prevOffset + 1];
+  const py = previous[prevOffset + 2];
+  return { x: px + (x - px) * alpha, y: py + (y - py) * alpha };
+}
+
+export function decodeParticles(
+  frame: Float32Array,
+  previous: Float32Array | null,
+  previousIndex: Map<number, number>,
+  alpha: number
+): RenderParticle[] {
+  const particles: RenderParticle[] = [];
+  for (let o = 0; o < frame.length; o += PARTICLE_STRIDE) {
+    const id = frame[o];
+    const flags = frame[o + 5];
+    particles.push({
+      id,
+      position: blend(frame, o, previous, previousIndex.get(id), alpha),
+      velocity: { x: frame[o + 3], y: frame[o + 4] },
+      type: flags & FLAG_EYE ? 'eye' : 'body',
+      isEmitted: (flags & FLAG_EMITTED) !== 0,
+      life: frame[o + 6],
+      owner: flags >> OWNER_SHIFT,
+      material: MATERIAL_IDS[frame[o + 7]]
+    });
+  }
+  return particles;
+}
+
+export function decodeEnemies(
+  frame: Float32Array,
+  previous: Float32Array | null,
+  previousIndex: Map<number, number>,
+  alpha: number,
+  styles: Map<number, EnemyStyle>,
+  fallbackStyle: EnemyStyle
+): RenderEnemy[] {
+  const enemies: RenderEnemy[] = [];
+  for (let o = 0; o < frame.length; o += ENEMY_STRIDE) {
+    const id = frame[o];
+    const style = styles.get(id) ?? fallbackStyle;
+    enemies.push({
+      id,
+      position: blend(frame, o, previous, previousIndex.get(id), alpha),
+      size: frame[o + 3],
+      health: frame[o + 4],
+      maxHealth: frame[o + 5],
+      color: style.color,
+      archetype: style.archetype,
+      attack: style.attack,
+      telegraph: frame[o + 6],
+      aim: { x: frame[o + 7], y: frame[o + 8] },
+      charging: frame[o + 9] !== 0
+    });
+  }
+  return enemies;
+}
+
+export function decodeProjectiles(
+  frame: Float32Array,
+  previous: Float32Array | null,
+  previousIndex: Map<number, number>,
+  alpha: number
+): RenderProjectile[] {
+  const projectiles: RenderProjectile[] = [];
+  for (let o = 0; o < frame.length; o += PROJECTILE_STRIDE) {
+    const id = frame[o];
+    projectiles.push({
+      id,
+      kind: frame[o + 4] === 1 ? 'shockwave' : 'bullet',
+      position: blend(frame, o, previous, previousIndex.get(id), alpha),
+      radius: frame[o + 3],
+      direction: frame[o + 5]
+    });
+  }
+  return projectiles;
+}
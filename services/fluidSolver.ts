@@ -0,0 +1,259 @@
+// 流体求解器 - SPH 与基于位置的流体（PBF），可替代默认的成对力模型
+// Kernels are normalised so a particle's density reads as its effective
+// neighbour count (self included) and restDensity stays a small number:
+//   density   W(r)   = (1 - r²/h²)³
+//   pressure  ∇W(r)  = (3/h)(1 - r/h)²   spiky gradient, along the pair axis
+//   viscosity ∇²W(r) = 1 - r/h
+// h is config.interactionRadius. Below rest density the density error is
+// scaled by config.surfaceTension, which is what holds the blob together.
+
+import { SimulationConfig } from '../types';
+import { ParticleStore } from './particleStore';
+import { SpatialHash } from './spatialHash';
+
+// SPH near-pressure, relative to pressureStiffness. Always repulsive and
+// sharper than the main kernel, it stops close pairs from clumping together.
+const SPH_NEAR_PRESSURE = 0.5;
+
+// PBF constraint softening, relative to 1/h² so it scales with the kernel
+const PBF_RELAXATION = 20;
+// PBF artificial pressure (keeps particles from clumping at the surface)
+const PBF_ANTI_CLUMP = 0.02;
+const PBF_ANTI_CLUMP_DISTANCE = 0.3; // Fraction of h where the correction is 1
+
+export class FluidSolver {
+  private density: Float32Array = new Float32Array(0);
+  private pressure: Float32Array = new Float32Array(0); // SPH pressure, or PBF lambda
+  private nearPressure: Float32Array = new Float32Array(0);
+  private prevX: Float32Array = new Float32Array(0);
+  private prevY: Float32Array = new Float32Array(0);
+  private deltaX: Float32Array = new Float32Array(0);
+  private deltaY: Float32Array = new Float32Array(0);
+
+  // Neighbour lists in compressed rows: neighbours of slot i are
+  // neighborList[neighborStart[i] .. neighborStart[i + 1])
+  private neighborStart: Int32Array = new Int32Array(1);
+  private neighborList: Int32Array = new Int32Array(0);
+  private query: number[] = [];
+
+  private ensureCapacity(count: number) {
+    if (this.density.length >= count) return;
+    const size = Math.max(count, this.density.length * 2);
+    this.density = new Float32Array(size);
+    this.pressure = new Float32Array(size);
+    this.nearPressure = new Float32Array(size);
+    this.prevX = new Float32Array(size);
+    this.prevY = new Float32Array(size);
+    this.deltaX = new Float32Array(size);
+    this.deltaY = new Float32Array(size);
+    this.neighborStart = new Int32Array(size + 1);
+  }
+
+  // Gather every live pair of the same slime closer than h; the grid must match current positions
+  private findNeighbors(store: ParticleStore, grid: SpatialHash, h: number) {
+    const query = this.query;
+    let total = 0;
+    for (let i = 0; i < store.count; i++) {
+      this.neighborStart[i] = total;
+      if (!store.isAlive(i)) continue;
+
+      grid.queryRadius(store.x[i], store.y[i], h, query);
+      if (total + query.length > this.neighborList.length) {
+        const list = new Int32Array(Math.max(64, (total + query.length) * 2));
+        list.set(this.neighborList.subarray(0, total));
+        this.neighborList = list;
+      }
+      // Each player's slime is its own body of fluid; the engine keeps them apart
+      for (const j of query) {
+        if (j !== i && store.owner[j] === store.owner[i]) this.neighborList[total++] = j;
+      }
+    }
+    this.neighborStart[store.count] = total;
+  }
+
+  // Density of every live particle from the current positions
+  private computeDensity(store: ParticleStore, h: number) {
+    const h2 = h * h;
+    for (let i = 0; i < store.count; i++) {
+      if (!store.isAlive(i)) continue;
+      let density = 1; // W(0)
+      for (let k = this.neighborStart[i]; k < this.neighborStart[i + 1]; k++) {
+        const j = this.neighborList[k];
+        const dx = store.x[j] - store.x[i];
+        const dy = store.y[j] - store.y[i];
+        const r2 = dx * dx + dy * dy;
+        if (r2 >= h2) continue;
+        const q = 1 - r2 / h2;
+        density += q * q * q;
+      }
+      this.density[i] = density;
+    }
+  }
+
+  // Normalised density error; a deficit only counts as much as surface tension allows
+  private densityError(i: number, config: SimulationConfig): number {
+    const error = this.density[i] / config.restDensity - 1;
+    return error < 0 ? error * config.surfaceTension : error;
+  }
+
+  // --- SPH: adds pressure and viscosity forces to fx/fy ---
+
+  applySphForces(store: ParticleStore, grid: SpatialHash, config: SimulationConfig) {
+    const h = config.interactionRadius;
+    this.ensureCapacity(store.count);
+    this.findNeighbors(store, grid, h);
+    this.computeDensity(store, h);
+
+    for (let i = 0; i < store.count; i++) {
+      if (!store.isAlive(i)) continue;
+      this.pressure[i] = config.pressureStiffness * this.densityError(i, config);
+
+      let nearDensity = 0;
+      for (let k = this.neighborStart[i]; k < this.neighborStart[i + 1]; k++) {
+        const j = this.neighborList[k];
+        const r = Math.hypot(store.x[j] - store.x[i], store.y[j] - store.y[i]);
+        if (r >= h) continue;
+        const falloff = 1 - r / h;
+        nearDensity += falloff * falloff * falloff;
+      }
+      this.nearPressure[i] = config.pressureStiffness * SPH_NEAR_PRESSURE * nearDensity;
+    }
+
+    // Each pair once (j > i), applied symmetrically so momentum is conserved
+    for (let i = 0; i < store.count; i++) {
+      if (!store.isAlive(i)) continue;
+      for (let k = this.neighborStart[i]; k < this.neighborStart[i + 1]; k++) {
+        const j = this.neighborList[k];
+        if (j <= i) continue;
+
+        const dx = store.x[j] - store.x[i];
+        const dy = store.y[j] - store.y[i];
+        const r = Math.sqrt(dx * dx + dy * dy);
+        if (r >= h || r === 0) continue;
+        const nx = dx / r;
+        const ny = dy / r;
+        const falloff = 1 - r / h;
+
+        // Positive pressure pushes the pair apart, negative pulls it together
+        const pressure = (this.pressure[i] + this.pressure[j]) * 0.5 * falloff * falloff +
+          (this.nearPressure[i] + this.nearPressure[j]) * 0.5 * falloff * falloff * falloff;
+        // Viscosity drags both velocities toward each other
+        const viscosity = config.viscosity * falloff;
+        const fx = -nx * pressure + (store.vx[j] - store.vx[i]) * viscosity;
+        const fy = -ny * pressure + (store.vy[j] - store.vy[i]) * viscosity;
+
+        store.fx[i] += fx;
+        store.fy[i] += fy;
+        store.fx[j] -= fx;
+        store.fy[j] -= fy;
+      }
+    }
+  }
+
+  // --- PBF: positions are integrated normally, then projected onto the density constraint ---
+
+  // Remember positions before integration; velocities are rebuilt from them afterwards
+  savePositions(store: ParticleStore) {
+    this.ensureCapacity(store.count);
+    this.prevX.set(store.x.subarray(0, store.count));
+    this.prevY.set(store.y.subarray(0, store.count));
+  }
+
+  // Run after integration with the grid rebuilt on the predicted positions
+  solvePositions(store: ParticleStore, grid: SpatialHash, config: SimulationConfig, dt: number) {
+    const h = config.interactionRadius;
+    const restDensity = config.restDensity;
+    const relaxation = PBF_RELAXATION / (h * h);
+    const antiClumpBase = Math.pow(1 - PBF_ANTI_CLUMP_DISTANCE * PBF_ANTI_CLUMP_DISTANCE, 3);
+    this.ensureCapacity(store.count);
+    this.findNeighbors(store, grid, h);
+
+    const iterations = Math.max(1, Math.floor(config.solverIterations));
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      this.computeDensity(store, h);
+
+      // Lagrange multiplier per particle
+      for (let i = 0; i < store.count; i++) {
+        if (!store.isAlive(i)) continue;
+        let gradX = 0, gradY = 0, sumSq = 0;
+        for (let k = this.neighborStart[i]; k < this.neighborStart[i + 1]; k++) {
+          const j = this.neighborList[k];
+          const dx = store.x[j] - store.x[i];
+          const dy = store.y[j] - store.y[i];
+          const r = Math.sqrt(dx * dx + dy * dy);
+          if (r >= h || r === 0) continue;
+          const falloff = 1 - r / h;
+          const g = (3 / h) * falloff * falloff / restDensity;
+          gradX += g * dx / r;
+          gradY += g * dy / r;
+          sumSq += g * g;
+        }
+        sumSq += gradX * gradX + gradY * gradY;
+        this.pressure[i] = -this.densityError(i, config) / (sumSq + relaxation);
+      }
+
+      // Position corrections (Jacobi: gathered first, then applied together)
+      for (let i = 0; i < store.count; i++) {
+        this.deltaX[i] = 0;
+        this.deltaY[i] = 0;
+        if (!store.isAlive(i)) continue;
+        for (let k = this.neighborStart[i]; k < this.neighborStart[i + 1]; k++) {
+          const j = this.neighborList[k];
+          const dx = store.x[j] - store.x[i];
+          const dy = store.y[j] - store.y[i];
+          const r2 = dx * dx + dy * dy;
+          const r = Math.sqrt(r2);
+          if (r >= h || r === 0) continue;
+          const falloff = 1 - r / h;
+          const w = Math.pow(1 - r2 / (h * h), 3);
+          const antiClump = -PBF_ANTI_CLUMP * h * h * Math.pow(w / antiClumpBase, 4);
+          const g = (3 / h) * falloff * falloff / restDensity;
+          const s = (this.pressure[i] + this.pressure[j] + antiClump) * g;
+          // Negative multipliers (compressed) move i away from j
+          this.deltaX[i] += s * dx / r;
+          this.deltaY[i] += s * dy / r;
+        }
+      }
+
+      for (let i = 0; i < store.count; i++) {
+        if (!store.isAlive(i)) continue;
+        store.x[i] += this.deltaX[i];
+        store.y[i] += this.deltaY[i];
+      }
+    }
+
+    // Velocity from the corrected displacement
+    const invDt = 1 / dt;
+    for (let i = 0; i < store.count; i++) {
+      if (!store.isAlive(i)) continue;
+      store.vx[i] = (store.x[i] - this.prevX[i]) * invDt;
+      store.vy[i] = (store.y[i] - this.prevY[i]) * invDt;
+    }
+
+    // XSPH viscosity: blend each velocity toward its neighbours'
+    const blend = Math.min(1, config.viscosity * dt);
+    if (blend <= 0) return;
+    this.computeDensity(store, h);
+    const h2 = h * h;
+    for (let i = 0; i < store.count; i++) {
+      this.deltaX[i] = 0;
+      this.deltaY[i] = 0;
+      if (!store.isAlive(i)) continue;
+      for (let k = this.neighborStart[i]; k < this.neighborStart[i + 1]; k++) {
+        const j = this.neighborList[k];
+        const dx = store.x[j] - store.x[i];
+        const dy = store.y[j] - store.y[i];
+        const r2 = dx * dx + dy * dy;
+        if (r2 >= h2) continue;
+        const w = Math.pow(1 - r2 / h2, 3) / this.density[i];
+        this.deltaX[i] += (store.vx[j] - store.vx[i]) * w;
+        this.deltaY[i] += (store.vy[j] - store.vy[i]) * w;
+      }
+    }
+    for (let i = 0; i < store.count; i++) {
+      if (!store.isAlive(i)) continue;
+      store.vx[i] += this.deltaX[i] * blend;
+      store.vy[i] += this.deltaY[i] * blend;
+    }
+  }
+}
@@ -0,0 +1,193 @@
+// 史莱姆碎片 - 把每个玩家的身体按连通分量分成碎片，并在每一步之间保持碎片的编号
+// Fragments are found again from particle proximity on every update. A piece
+// keeps the id of the fragment most of its particles came from, so when a
+// fragment splits its id stays with the biggest piece (or with the piece its
+// player steers) and the rest get new ids and names, and pieces that touch
+// become one fragment again. Launched particles are never part of a fragment.
+// Fragments remember their particles by handle; the slot groups are only
+// valid until dead particles are removed at the end of the update.
+
+import { SlimeFragment, SlimeState } from '../types';
+import { FRAGMENT_MIN_SIZE, FRAGMENT_NAMES } from '../constants';
+import { ParticleStore } from './particleStore';
+import { SpatialHash } from './spatialHash';
+
+// Something that happened to a fragment this update, for sounds and springs
+export type FragmentChange = { type: 'split' | 'merge'; fragment: SlimeFragment; slots: Set<number> };
+
+// Every fragment has a pair of eyes
+const EYES_PER_FRAGMENT = 2;
+
+function fragmentName(id: number): string {
+  const round = Math.floor(id / FRAGMENT_NAMES.length);
+  return FRAGMENT_NAMES[id % FRAGMENT_NAMES.length] + (round > 0 ? String(round + 1) : '');
+}
+
+export class FragmentTracker {
+  // Biggest first
+  fragments: SlimeFragment[] = [];
+  // Slots of each fragment's particles, parallel to `fragments`
+  groups: Set<number>[] = [];
+  private nextId: number = 0;
+  private neighbors: number[] = [];
+
+  get nextFragmentId(): number {
+    return this.nextId;
+  }
+
+  clear() {
+    this.fragments = [];
+    this.groups = [];
+    this.nextId = 0;
+  }
+
+  restore(fragments: SlimeFragment[], nextId: number) {
+    this.fragments = structuredClone(fragments);
+    this.groups = [];
+    this.nextId = nextId;
+  }
+
+  byId(id: number): SlimeFragment | null {
+    return this.fragments.find(fragment => fragment.id === id) ?? null;
+  }
+
+  // Slots of the fragment a player steers, empty when there is none
+  controlledGroup(slime: SlimeState): Set<number> {
+    const index = this.fragments.findIndex(fragment => fragment.id === slime.controlledFragment);
+    return this.groups[index] ?? new Set();
+  }
+
+  // The player's fragment after `current` in id order, wrapping around
+  next(player: number, current: number): SlimeFragment | null {
+    const own = this.fragments.filter(fragment => fragment.owner === player).sort((a, b) => a.id - b.id);
+    if (own.length === 0) return null;
+    const index = own.findIndex(fragment => fragment.id === current);
+    return own[(index + 1) % own.length];
+  }
+
+  // Find the fragments at the current positions (the grid must be up to date)
+  // and hand control over to the biggest one for players who lost theirs
+  update(store: ParticleStore, grid: SpatialHash, connectionDistance: number, slimes: SlimeState[]): FragmentChange[] {
+    const components = this.findComponents(store, grid, connectionDistance);
+
+    // Where each particle was last update
+    const previous = new Map<number, number>();
+    for (const fragment of this.fragments) {
+      for (const handle of fragment.particles) previous.set(handle, fragment.id);
+    }
+
+    // Biggest first, so the biggest piece of a split keeps the old id
+    components.sort((a, b) => b.slots.length - a.slots.length);
+    const hasFragment = new Set<number>();
+    const claimed = new Set<number>();
+    const changes: FragmentChange[] = [];
+    this.fragments = [];
+    this.groups = [];
+
+    for (const { owner, slots } of components) {
+      // Loose droplets stay out, unless nothing bigger of this slime is left
+      if (slots.length < FRAGMENT_MIN_SIZE && hasFragment.has(owner)) continue;
+      hasFragment.add(owner);
+
+      const overlap = new Map<number, number>();
+      for (const slot of slots) {
+        const id = previous.get(store.handles[slot]);
+        if (id !== undefined) overlap.set(id, (overlap.get(id) ?? 0) + 1);
+      }
+
+      // The steered fragment keeps its id through merges, then the biggest share wins
+      const steered = slimes[owner]?.controlledFragment;
+      let id = -1;
+      let best = 0;
+      for (const [candidate, count] of overlap) {
+        if (claimed.has(candidate)) continue;
+        if (candidate === steered) {
+          id = candidate;
+          break;
+        }
+        if (count > best || (count === best && candidate < id)) {
+          id = candidate;
+          best = count;
+        }
+      }
+      const isNew = id < 0;
+      if (isNew) id = this.nextId++;
+      claimed.add(id);
+
+      let x = 0, y = 0;
+      for (const slot of slots) {
+        x += store.x[slot];
+        y += store.y[slot];
+      }
+      const fragment: SlimeFragment = {
+        id,
+        owner,
+        name: fragmentName(id),
+        particles: slots.map(slot => store.handles[slot]),
+        center: { x: x / slots.length, y: y / slots.length }
+      };
+      const group = new Set(slots);
+      this.fragments.push(fragment);
+      this.groups.push(group);
+      this.giveEyes(store, slots);
+
+      if (overlap.size > 1) {
+        changes.push({ type: 'merge', fragment, slots: group });
+      } else if (isNew && overlap.size > 0) {
+        changes.push({ type: 'split', fragment, slots: group });
+      }
+    }
+
+    // A player whose fragment is gone (or who never had one) takes the biggest left
+    slimes.forEach((slime, player) => {
+      if (this.fragments.some(fragment => fragment.id === slime.controlledFragment && fragment.owner === player)) return;
+      slime.controlledFragment = this.fragments.find(fragment => fragment.owner === player)?.id ?? -1;
+    });
+
+    return changes;
+  }
+
+  // Connected in-body particles of the same slime, in slot order
+  private findComponents(store: ParticleStore, grid: SpatialHash, connectionDistance: number): { owner: number; slots: number[] }[] {
+    const visited = new Uint8Array(store.count);
+    const neighbors = this.neighbors;
+    const components: { owner: number; slots: number[] }[] = [];
+
+    for (let i = 0; i < store.count; i++) {
+      if (visited[i] || !store.isAlive(i) || store.isEmitted(i)) continue;
+      const owner = store.owner[i];
+      const slots = [i];
+      visited[i] = 1;
+
+      for (let head = 0; head < slots.length; head++) {
+        const current = slots[head];
+        grid.queryRadius(store.x[current], store.y[current], connectionDistance, neighbors);
+        for (const j of neighbors) {
+          if (visited[j] || !store.isAlive(j) || store.isEmitted(j) || store.owner[j] !== owner) continue;
+          if (Math.hypot(store.x[j] - store.x[current], store.y[j] - store.y[current]) < connectionDistance) {
+            visited[j] = 1;
+            slots.push(j);
+          }
+        }
+      }
+      components.push({ owner, slots });
+    }
+    return components;
+  }
+
+  // A fragment short of a pair of eyes opens new ones on its topmost body
+  // particles; one that merged and has too many closes the lowest. Always
+  // keeps a body particle.
+  private giveEyes(store: ParticleStore, slots: number[]) {
+    const eyes = slots.filter(slot => store.isEye(slot));
+    if (eyes.length === EYES_PER_FRAGMENT || slots.length <= EYES_PER_FRAGMENT) return;
+
+    const byHeight = (a: number, b: number) => store.y[a] - store.y[b] || a - b;
+    if (eyes.length > EYES_PER_FRAGMENT) {
+      for (const slot of eyes.sort(byHeight).slice(EYES_PER_FRAGMENT)) store.setEye(slot, false);
+    } else {
+      const body = slots.filter(slot => !store.isEye(slot)).sort(byHeight);
+      for (const slot of body.slice(0, EYES_PER_FRAGMENT - eyes.length)) store.setEye(slot, true);
+    }
+  }
+}
@@ -0,0 +1,295 @@
+// 关卡文件 - 版本化 JSON 格式的校验与默认值补全
+// The format is documented in levels/README.md. Validation collects every
+// problem it finds so a broken file reports all of them at once.
+
+import { LevelDefinition, LevelEnemy, LevelBackground, MaterialPickup, Droplet, Platform, PlatformShape, Vector2, EnemyBehavior, EnemyAttack } from '../types';
+import { DEFAULT_ENEMY_BEHAVIOR, DEFAULT_ENEMY_ATTACKS, PICKUP_AMOUNT, DROPLET_AMOUNT } from '../constants';
+import { ENEMY_ARCHETYPES, ENEMY_ARCHETYPE_IDS, isEnemyArchetype } from './enemyArchetypes';
+import { MATERIAL_IDS, isMaterial } from './materials';
+
+export const LEVEL_VERSION = 1;
+
+export const DEFAULT_LEVEL_BACKGROUND: LevelBackground = {
+  color: '#f9fafb',    // Tailwind gray-50
+  gridColor: '#f3f4f6' // Tailwind gray-100
+};
+
+// Collects "path: problem" messages while walking the raw data
+class LevelValidator {
+  issues: string[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push(`${path}: ${message}`);
+  }
+
+  object(value: unknown, path: string): Record<string, any> | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      this.fail(path, '必须是对象');
+      return null;
+    }
+    return value as Record<string, any>;
+  }
+
+  array(value: unknown, path: string): any[] {
+    if (!Array.isArray(value)) {
+      this.fail(path, '必须是数组');
+      return [];
+    }
+    return value;
+  }
+
+  number(value: unknown, path: string, min: number = -Infinity, max: number = Infinity): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, '必须是数字');
+      return 0;
+    }
+    if (value < min || value > max) {
+      this.fail(path, max === Infinity ? `必须 ≥ ${min}` : `必须在 ${min} 到 ${max} 之间`);
+    }
+    return value;
+  }
+
+  optionalNumber(value: unknown, path: string, fallback: number, min?: number, max?: number): number {
+    return value === undefined ? fallback : this.number(value, path, min, max);
+  }
+
+  string(value: unknown, path: string): string {
+    if (typeof value !== 'string' || value.length === 0) {
+      this.fail(path, '必须是非空字符串');
+      return '';
+    }
+    return value;
+  }
+
+  optionalString(value: unknown, path: string, fallback: string): string {
+    return value === undefined ? fallback : this.string(value, path);
+  }
+
+  vector(value: unknown, path: string): Vector2 {
+    const obj = this.object(value, path);
+    if (!obj) return { x: 0, y: 0 };
+    return { x: this.number(obj.x, `${path}.x`), y: this.number(obj.y, `${path}.y`) };
+  }
+
+  shape(value: unknown, path: string): PlatformShape {
+    const obj = this.object(value, path);
+    const fallback: PlatformShape = { kind: 'segment', a: { x: 0, y: 0 }, b: { x: 0, y: 0 } };
+    if (!obj) return fallback;
+
+    switch (obj.kind) {
+      case 'box': {
+        const min = this.vector(obj.min, `${path}.min`);
+        const max = this.vector(obj.max, `${path}.max`);
+        if (max.x <= min.x || max.y <= min.y) {
+          this.fail(path, 'max 必须大于 min');
+        }
+        return { kind: 'box', min, max };
+      }
+      case 'segment':
+        return { kind: 'segment', a: this.vector(obj.a, `${path}.a`), b: this.vector(obj.b, `${path}.b`) };
+      case 'polygon': {
+        const points = this.array(obj.points, `${path}.points`).map((p, i) => this.vector(p, `${path}.points[${i}]`));
+        if (points.length < 3) {
+          this.fail(`${path}.points`, '多边形至少需要 3 个顶点');
+        } else if (!isConvex(points)) {
+          this.fail(`${path}.points`, '多边形必须是凸多边形');
+        }
+        return { kind: 'polygon', points };
+      }
+      default:
+        this.fail(`${path}.kind`, `未知形状 "${obj.kind}"，应为 box / segment / polygon`);
+        return fallback;
+    }
+  }
+
+  // An enemy's optional behavior block; missing fields keep the archetype's defaults
+  behavior(value: unknown, path: string, defaults: EnemyBehavior): EnemyBehavior {
+    const obj = value === undefined ? {} : this.object(value, path) ?? {};
+    const initialState = obj.initialState ?? defaults.initialState;
+    if (initialState !== 'patrol' && initialState !== 'idle') {
+      this.fail(`${path}.initialState`, `未知状态 ${JSON.stringify(initialState)}，应为 patrol / idle`);
+    }
+    return {
+      initialState: initialState === 'idle' ? 'idle' : 'patrol',
+      sightRange: this.optionalNumber(obj.sightRange, `${path}.sightRange`, defaults.sightRange, 0),
+      chaseSpeed: this.optionalNumber(obj.chaseSpeed, `${path}.chaseSpeed`, defaults.chaseSpeed, 0),
+      fleeBelow: this.optionalNumber(obj.fleeBelow, `${path}.fleeBelow`, defaults.fleeBelow, 0, 1),
+      fleeSpeed: this.optionalNumber(obj.fleeSpeed, `${path}.fleeSpeed`, defaults.fleeSpeed, 0),
+      jumpInterval: this.optionalNumber(obj.jumpInterval, `${path}.jumpInterval`, defaults.jumpInterval, 0),
+      jumpHeight: this.optionalNumber(obj.jumpHeight, `${path}.jumpHeight`, defaults.jumpHeight, 0),
+      idleTime: this.optionalNumber(obj.idleTime, `${path}.idleTime`, defaults.idleTime, 0)
+    };
+  }
+
+  // An enemy's optional attack: missing keeps the archetype's, null turns it off.
+  // Fields left out come from the archetype's attack if it is the same kind.
+  attack(value: unknown, path: string, defaults: EnemyAttack | null): EnemyAttack | null {
+    if (value === null) return null;
+    if (value === undefined) return defaults && { ...defaults };
+    const obj = this.object(value, path);
+    if (!obj) return null;
+
+    const kind = obj.kind ?? defaults?.kind;
+    if (kind !== 'shoot' && kind !== 'pound' && kind !== 'charge') {
+      this.fail(`${path}.kind`, `未知攻击方式 ${JSON.stringify(kind)}，应为 shoot / pound / charge`);
+      return null;
+    }
+    const base = defaults?.kind === kind ? defaults : DEFAULT_ENEMY_ATTACKS[kind];
+    return {
+      kind,
+      range: this.optionalNumber(obj.range, `${path}.range`, base.range, 0),
+      cooldown: this.optionalNumber(obj.cooldown, `${path}.cooldown`, base.cooldown, 0.1),
+      windup: this.optionalNumber(obj.windup, `${path}.windup`, base.windup, 0),
+      damage: this.optionalNumber(obj.damage, `${path}.damage`, base.damage, 0),
+      speed: this.optionalNumber(obj.speed, `${path}.speed`, base.speed, 1)
+    };
+  }
+}
+
+// True if every turn along the outline goes the same way
+function isConvex(points: Vector2[]): boolean {
+  let sign = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const c = points[(i + 2) % points.length];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) continue;
+    if (sign === 0) {
+      sign = Math.sign(cross);
+    } else if (Math.sign(cross) !== sign) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Validate raw level data and fill in defaults; throws with every problem found
+export function validateLevel(data: unknown): LevelDefinition {
+  const v = new LevelValidator();
+  const root = v.object(data, 'level');
+  if (!root) {
+    throw new Error('关卡文件无效:\nlevel: 必须是对象');
+  }
+
+  if (root.version !== LEVEL_VERSION) {
+    v.fail('version', `不支持的关卡版本 ${JSON.stringify(root.version)}，当前版本为 ${LEVEL_VERSION}`);
+  }
+
+  const name = v.string(root.name, 'name');
+
+  const worldObj = v.object(root.world, 'world');
+  const world = {
+    width: worldObj ? v.number(worldObj.width, 'world.width', 100, 10000) : 0,
+    height: worldObj ? v.number(worldObj.height, 'world.height', 100, 10000) : 0
+  };
+
+  // Only range-check the spawn against a world size that parsed
+  const spawnObj = v.object(root.spawn, 'spawn');
+  const spawn = {
+    x: spawnObj ? v.number(spawnObj.x, 'spawn.x', 0, world.width || Infinity) : 0,
+    y: spawnObj ? v.number(spawnObj.y, 'spawn.y', 0, world.height || Infinity) : 0,
+    particleCount: spawnObj ? v.number(spawnObj.particleCount, 'spawn.particleCount', 3, 5000) : 0
+  };
+
+  const enemies: LevelEnemy[] = v.array(root.enemies ?? [], 'enemies').map((raw, i) => {
+    const path = `enemies[${i}]`;
+    const obj = v.object(raw, path) ?? {};
+    const patrolPoints = v.array(obj.patrolPoints, `${path}.patrolPoints`)
+      .map((p, j) => v.vector(p, `${path}.patrolPoints[${j}]`));
+    if (Array.isArray(obj.patrolPoints) && patrolPoints.length === 0) {
+      v.fail(`${path}.patrolPoints`, '至少需要 1 个巡逻点');
+    }
+    const archetype = obj.archetype ?? 'brute';
+    if (!isEnemyArchetype(archetype)) {
+      v.fail(`${path}.archetype`, `未知敌人种类 ${JSON.stringify(archetype)}，应为 ${ENEMY_ARCHETYPE_IDS.join(' / ')}`);
+    }
+    // Stats left out of the file come from the archetype
+    const id = isEnemyArchetype(archetype) ? archetype : 'brute';
+    const defaults = ENEMY_ARCHETYPES[id];
+    return {
+      archetype: id,
+      patrolPoints,
+      speed: v.optionalNumber(obj.speed, `${path}.speed`, defaults.speed, 0),
+      health: v.optionalNumber(obj.health, `${path}.health`, defaults.health, 1),
+      size: v.optionalNumber(obj.size, `${path}.size`, defaults.size, 4),
+      damage: v.optionalNumber(obj.damage, `${path}.damage`, defaults.damage, 0),
+      mass: v.optionalNumber(obj.mass, `${path}.mass`, defaults.mass, 0.1),
+      color: v.optionalString(obj.color, `${path}.color`, defaults.color),
+      behavior: v.behavior(obj.behavior, `${path}.behavior`, { ...DEFAULT_ENEMY_BEHAVIOR, ...defaults.behavior }),
+      attack: v.attack(obj.attack, `${path}.attack`, defaults.attack)
+    };
+  });
+
+  const platforms: Omit<Platform, 'id'>[] = v.array(root.platforms ?? [], 'platforms').map((raw, i) => {
+    const path = `platforms[${i}]`;
+    const obj = v.object(raw, path) ?? {};
+    const platform: Omit<Platform, 'id'> = {
+      shape: v.shape(obj.shape, `${path}.shape`),
+      friction: v.optionalNumber(obj.friction, `${path}.friction`, 0.1, 0, 1),
+      restitution: v.optionalNumber(obj.restitution, `${path}.restitution`, 0.3, 0, 1)
+    };
+    if (obj.color !== undefined) {
+      platform.color = v.string(obj.color, `${path}.color`);
+    }
+    return platform;
+  });
+
+  const pickups: Omit<MaterialPickup, 'id'>[] = v.array(root.pickups ?? [], 'pickups').map((raw, i) => {
+    const path = `pickups[${i}]`;
+    const obj = v.object(raw, path) ?? {};
+    if (!isMaterial(obj.material)) {
+      v.fail(`${path}.material`, `未知材质 ${JSON.stringify(obj.material)}，应为 ${MATERIAL_IDS.join(' / ')}`);
+    }
+    return {
+      position: v.vector(obj.position, `${path}.position`),
+      material: isMaterial(obj.material) ? obj.material : 'normal',
+      amount: Math.floor(v.optionalNumber(obj.amount, `${path}.amount`, PICKUP_AMOUNT, 1, 5000))
+    };
+  });
+
+  const droplets: Omit<Droplet, 'id'>[] = v.array(root.droplets ?? [], 'droplets').map((raw, i) => {
+    const path = `droplets[${i}]`;
+    const obj = v.object(raw, path) ?? {};
+    return {
+      position: v.vector(obj.position, `${path}.position`),
+      amount: Math.floor(v.optionalNumber(obj.amount, `${path}.amount`, DROPLET_AMOUNT, 1, 100))
+    };
+  });
+
+  const backgroundObj = root.background === undefined ? {} : v.object(root.background, 'background') ?? {};
+  const background: LevelBackground = {
+    color: v.optionalString(backgroundObj.color, 'background.color', DEFAULT_LEVEL_BACKGROUND.color),
+    gridColor: backgroundObj.gridColor === null
+      ? null
+      : v.optionalString(backgroundObj.gridColor, 'background.gridColor', DEFAULT_LEVEL_BACKGROUND.gridColor!)
+  };
+
+  if (v.issues.length > 0) {
+    throw new Error(`关卡文件无效:\n${v.issues.join('\n')}`);
+  }
+
+  return { version: LEVEL_VERSION, name, world, spawn, enemies, platforms, pickups, droplets, background };
+}
+
+// Parse and validate a level file's JSON text
+export function parseLevel(text: string): LevelDefinition {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`关卡文件不是有效的 JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return validateLevel(data);
+}
+
+// Trigger a browser download of the level as formatted JSON
+export function downloadLevel(level: LevelDefinition, filename: string = `${level.name.replace(/[^\w-]+/g, '_') || 'level'}.json`) {
+  const blob = new Blob([JSON.stringify(level, null, 2) + '\n'], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,262 @@
+// 关卡编辑器状态 - 正在编辑的关卡、当前选中对象和撤销/重做历史
+// The editor UI reads `level` and `selection` directly and re-renders on onChange.
+// Every edit goes through apply() or a beginDrag()/endDrag() pair so it can be undone.
+
+import { LevelDefinition, LevelEnemy, EnemyArchetypeId, PlatformShape, Vector2 } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, DEFAULT_CONFIG, DEFAULT_ENEMY_BEHAVIOR } from '../constants';
+import { ENEMY_ARCHETYPES } from './enemyArchetypes';
+import { collideCircle } from './collision';
+import { LEVEL_VERSION, DEFAULT_LEVEL_BACKGROUND } from './level';
+
+export type EditorSelection =
+  | { kind: 'spawn' }
+  | { kind: 'enemy'; index: number }
+  | { kind: 'patrolPoint'; index: number; point: number }
+  | { kind: 'platform'; index: number };
+
+const HISTORY_LIMIT = 100;
+const HANDLE_RADIUS = 8; // Click tolerance for the spawn marker and patrol points
+
+// Starting point for a new level: the classic canvas with nothing in it
+export function createEmptyLevel(): LevelDefinition {
+  return {
+    version: LEVEL_VERSION,
+    name: 'Untitled',
+    world: { width: CANVAS_WIDTH, height: CANVAS_HEIGHT },
+    spawn: { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2, particleCount: DEFAULT_CONFIG.particleCount },
+    enemies: [],
+    platforms: [],
+    pickups: [],
+    droplets: [],
+    background: { ...DEFAULT_LEVEL_BACKGROUND }
+  };
+}
+
+// A ground enemy walking back and forth around a point
+export function createEnemy(at: Vector2, archetype: EnemyArchetypeId = 'brute'): LevelEnemy {
+  const enemy = { patrolPoints: [{ x: at.x - 60, y: at.y }, { x: at.x + 60, y: at.y }] } as LevelEnemy;
+  setEnemyArchetype(enemy, archetype);
+  return enemy;
+}
+
+// Switch an enemy's kind, resetting its stats, color, behavior and attack to that kind's defaults
+export function setEnemyArchetype(enemy: LevelEnemy, archetype: EnemyArchetypeId) {
+  const defaults = ENEMY_ARCHETYPES[archetype];
+  enemy.archetype = archetype;
+  enemy.speed = defaults.speed;
+  enemy.health = defaults.health;
+  enemy.size = defaults.size;
+  enemy.damage = defaults.damage;
+  enemy.mass = defaults.mass;
+  enemy.color = defaults.color;
+  enemy.behavior = { ...DEFAULT_ENEMY_BEHAVIOR, ...defaults.behavior };
+  enemy.attack = defaults.attack && { ...defaults.attack };
+}
+
+export function translateShape(shape: PlatformShape, dx: number, dy: number) {
+  const points = shape.kind === 'box' ? [shape.min, shape.max]
+    : shape.kind === 'segment' ? [shape.a, shape.b]
+    : shape.points;
+  for (const point of points) {
+    point.x += dx;
+    point.y += dy;
+  }
+}
+
+export class LevelEditorState {
+  level: LevelDefinition;
+  selection: EditorSelection | null = null;
+
+  // Called after every change to the level or selection
+  onChange?: () => void;
+
+  private undoStack: LevelDefinition[] = [];
+  private redoStack: LevelDefinition[] = [];
+  private mergeKey: string | null = null;
+  private dragStart: LevelDefinition | null = null; // Level before the drag in progress
+
+  constructor(level: LevelDefinition = createEmptyLevel()) {
+    this.level = structuredClone(level);
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Make one undoable edit. Consecutive edits sharing a mergeKey (typing into
+  // the same field) collapse into a single undo step.
+  apply(mutate: (level: LevelDefinition) => void, mergeKey: string | null = null) {
+    if (mergeKey === null || mergeKey !== this.mergeKey) {
+      this.pushHistory(structuredClone(this.level));
+    }
+    this.mergeKey = mergeKey;
+    mutate(this.level);
+    this.changed();
+  }
+
+  // Drags mutate live on every mouse move and become one undo step on release
+  beginDrag() {
+    this.dragStart = structuredClone(this.level);
+  }
+
+  drag(mutate: (level: LevelDefinition) => void) {
+    mutate(this.level);
+    this.changed();
+  }
+
+  endDrag() {
+    if (this.dragStart && JSON.stringify(this.dragStart) !== JSON.stringify(this.level)) {
+      this.pushHistory(this.dragStart);
+      this.mergeKey = null;
+    }
+    this.dragStart = null;
+  }
+
+  undo() {
+    const previous = this.undoStack.pop();
+    if (!previous) return;
+    this.redoStack.push(this.level);
+    this.level = previous;
+    this.mergeKey = null;
+    this.dropStaleSelection();
+    this.changed();
+  }
+
+  redo() {
+    const next = this.redoStack.pop();
+    if (!next) return;
+    this.undoStack.push(this.level);
+    this.level = next;
+    this.mergeKey = null;
+    this.dropStaleSelection();
+    this.changed();
+  }
+
+  // Replace the whole level (e.g. an imported file); undoable like any edit
+  load(level: LevelDefinition) {
+    this.pushHistory(this.level);
+    this.level = structuredClone(level);
+    this.mergeKey = null;
+    this.selection = null;
+    this.changed();
+  }
+
+  select(selection: EditorSelection | null) {
+    this.selection = selection;
+    this.mergeKey = null;
+    this.changed();
+  }
+
+  // Topmost object under a point: patrol points, then the spawn, enemies and platforms
+  hitTest(point: Vector2): EditorSelection | null {
+    const { level } = this;
+    const near = (p: Vector2, radius: number) =>
+      (p.x - point.x) * (p.x - point.x) + (p.y - point.y) * (p.y - point.y) <= radius * radius;
+
+    for (let i = level.enemies.length - 1; i >= 0; i--) {
+      const points = level.enemies[i].patrolPoints;
+      // The first point sits under the enemy body, so it is picked through the body instead
+      for (let j = points.length - 1; j >= 1; j--) {
+        if (near(points[j], HANDLE_RADIUS)) return { kind: 'patrolPoint', index: i, point: j };
+      }
+    }
+
+    if (near(level.spawn, HANDLE_RADIUS * 2)) return { kind: 'spawn' };
+
+    for (let i = level.enemies.length - 1; i >= 0; i--) {
+      const enemy = level.enemies[i];
+      const center = enemy.patrolPoints[0];
+      const half = enemy.size / 2;
+      if (Math.abs(point.x - center.x) <= half && Math.abs(point.y - center.y) <= half) {
+        return { kind: 'enemy', index: i };
+      }
+    }
+
+    for (let i = level.platforms.length - 1; i >= 0; i--) {
+      if (collideCircle(point, 4, level.platforms[i].shape)) return { kind: 'platform', index: i };
+    }
+
+    return null;
+  }
+
+  // Move the selected object by a delta (used while dragging)
+  moveSelection(dx: number, dy: number) {
+    const selection = this.selection;
+    if (!selection) return;
+
+    this.drag(level => {
+      switch (selection.kind) {
+        case 'spawn':
+          level.spawn.x += dx;
+          level.spawn.y += dy;
+          break;
+        case 'enemy':
+          for (const p of level.enemies[selection.index].patrolPoints) {
+            p.x += dx;
+            p.y += dy;
+          }
+          break;
+        case 'patrolPoint': {
+          const p = level.enemies[selection.index].patrolPoints[selection.point];
+          p.x += dx;
+          p.y += dy;
+          break;
+        }
+        case 'platform':
+          translateShape(level.platforms[selection.index].shape, dx, dy);
+          break;
+      }
+    });
+  }
+
+  deleteSelection() {
+    const selection = this.selection;
+    if (!selection || selection.kind === 'spawn') return;
+
+    this.apply(level => {
+      switch (selection.kind) {
+        case 'enemy':
+          level.enemies.splice(selection.index, 1);
+          break;
+        case 'patrolPoint': {
+          const points = level.enemies[selection.index].patrolPoints;
+          // Enemies need at least one point to stand on
+          if (points.length > 1) points.splice(selection.point, 1);
+          break;
+        }
+        case 'platform':
+          level.platforms.splice(selection.index, 1);
+          break;
+      }
+    });
+    this.selection = null;
+    this.changed();
+  }
+
+  private pushHistory(state: LevelDefinition) {
+    this.undoStack.push(state);
+    if (this.undoStack.length > HISTORY_LIMIT) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  // Undo/redo can remove the object the selection points at
+  private dropStaleSelection() {
+    const selection = this.selection;
+    if (!selection || selection.kind === 'spawn') return;
+    const exists = selection.kind === 'platform'
+      ? selection.index < this.level.platforms.length
+      : selection.index < this.level.enemies.length &&
+        (selection.kind === 'enemy' || selection.point < this.level.enemies[selection.index].patrolPoints.length);
+    if (!exists) this.selection = null;
+  }
+
+  private changed() {
+    this.onChange?.();
+  }
+}
@@ -0,0 +1,91 @@
+// 粒子材质 - 每种材质的物理系数、颜色和击中敌人时的效果
+// A particle's material scales its mass, how much it bounces off and slides
+// along the world, and how strongly it pulls on its neighbours (the average
+// of the pair's cohesion). Launched particles also do something extra when
+// they hit an enemy. The store keeps materials as indices into MATERIAL_IDS.
+
+import { MaterialId } from '../types';
+
+export type MaterialHit =
+  | { kind: 'none' }
+  | { kind: 'slow'; duration: number }                // Glues the enemy down for `duration` seconds
+  | { kind: 'rebound'; restitution: number }          // Bounces off and flies on instead of bursting
+  | { kind: 'crush'; damage: number }                 // Multiplies the shot's damage
+  | { kind: 'explode'; radius: number; damage: number } // Also hurts every other enemy within radius
+  | { kind: 'chain'; range: number; damage: number };   // Arcs on to the closest other enemy in range
+
+export interface Material {
+  name: string;         // Shown in the HUD
+  color: string | null; // null = the slime's own color
+  mass: number;         // Multipliers of a plain particle's values
+  restitution: number;
+  friction: number;
+  cohesion: number;
+  hit: MaterialHit;
+}
+
+export const MATERIALS: Record<MaterialId, Material> = {
+  normal: {
+    name: '普通',
+    color: null,
+    mass: 1,
+    restitution: 1,
+    friction: 1,
+    cohesion: 1,
+    hit: { kind: 'none' }
+  },
+  // Clings to everything; shots glue enemies in place
+  sticky: {
+    name: '黏胶',
+    color: '#a3e635', // Tailwind lime-400
+    mass: 1,
+    restitution: 0.1,
+    friction: 4,
+    cohesion: 1.6,
+    hit: { kind: 'slow', duration: 3 }
+  },
+  bouncy: {
+    name: '弹力',
+    color: '#f472b6', // Tailwind pink-400
+    mass: 0.8,
+    restitution: 1.8,
+    friction: 0.3,
+    cohesion: 0.9,
+    hit: { kind: 'rebound', restitution: 0.8 }
+  },
+  heavy: {
+    name: '重金属',
+    color: '#64748b', // Tailwind slate-500
+    mass: 3,
+    restitution: 0.3,
+    friction: 1.5,
+    cohesion: 1.2,
+    hit: { kind: 'crush', damage: 2 }
+  },
+  explosive: {
+    name: '爆炸',
+    color: '#f97316', // Tailwind orange-500
+    mass: 1,
+    restitution: 0.6,
+    friction: 1,
+    cohesion: 0.7,
+    hit: { kind: 'explode', radius: 90, damage: 20 }
+  },
+  conductive: {
+    name: '导电',
+    color: '#38bdf8', // Tailwind sky-400
+    mass: 1.2,
+    restitution: 0.5,
+    friction: 0.8,
+    cohesion: 1,
+    hit: { kind: 'chain', range: 220, damage: 12 }
+  }
+};
+
+// In store index order; 'normal' is 0 so a zeroed column means plain slime
+export const MATERIAL_IDS = Object.keys(MATERIALS) as MaterialId[];
+export const MATERIALS_BY_INDEX = MATERIAL_IDS.map(id => MATERIALS[id]);
+
+export function isMaterial(value: unknown): value is MaterialId {
+  return MATERIAL_IDS.includes(value as MaterialId);
+}
@@ -0,0 +1,343 @@
+// 粒子存储 - 结构数组（SoA）布局，热数据放在连续的 Float32Array 中
+// Live particles occupy the dense slots 0..count-1 of every array. Removing a
+// particle swaps the last one into its slot, so slots move around; anything
+// that has to remember a particle across steps keeps its handle (the
+// particle id) instead. Handles of removed particles go on a free list and
+// are handed out again by later add() calls.
+
+import { Particle, MaterialId, Vector2 } from '../types';
+import { MATERIALS, MATERIAL_IDS } from './materials';
+
+const FLAG_FIXED = 1;
+const FLAG_EYE = 2;
+const FLAG_EMITTED = 4;
+
+const INITIAL_CAPACITY = 64;
+
+// Everything needed to create a particle; the handle is assigned by the store
+export type ParticleInit = Omit<Particle, 'id'>;
+
+export class ParticleStore {
+  count: number = 0;
+
+  // Dense per-slot data
+  x: Float32Array;
+  y: Float32Array;
+  vx: Float32Array;
+  vy: Float32Array;
+  fx: Float32Array;
+  fy: Float32Array;
+  mass: Float32Array;
+  radius: Float32Array;
+  health: Float32Array; // <= 0 means dead, removed at the end of the step
+  maxHealth: Float32Array;
+  age: Float32Array;    // Seconds since launch, emitted particles only
+  flags: Uint8Array;
+  owner: Uint8Array;   // Player whose slime the particle belongs to
+  material: Uint8Array; // Index into MATERIAL_IDS
+  handles: Int32Array; // slot -> handle
+
+  // handle -> slot, -1 for handles not in use
+  private slots: Int32Array;
+  private freeHandles: number[] = [];
+  private nextHandle: number = 0;
+  private views: ParticleView[] = []; // Cached by handle
+
+  constructor(capacity: number = INITIAL_CAPACITY) {
+    this.x = new Float32Array(capacity);
+    this.y = new Float32Array(capacity);
+    this.vx = new Float32Array(capacity);
+    this.vy = new Float32Array(capacity);
+    this.fx = new Float32Array(capacity);
+    this.fy = new Float32Array(capacity);
+    this.mass = new Float32Array(capacity);
+    this.radius = new Float32Array(capacity);
+    this.health = new Float32Array(capacity);
+    this.maxHealth = new Float32Array(capacity);
+    this.age = new Float32Array(capacity);
+    this.flags = new Uint8Array(capacity);
+    this.owner = new Uint8Array(capacity);
+    this.material = new Uint8Array(capacity);
+    this.handles = new Int32Array(capacity);
+    this.slots = new Int32Array(capacity).fill(-1);
+  }
+
+  get capacity(): number {
+    return this.x.length;
+  }
+
+  // Double every array until `needed` slots fit
+  private grow(needed: number) {
+    let capacity = Math.max(1, this.capacity);
+    while (capacity < needed) capacity *= 2;
+    const resize = <T extends Float32Array | Uint8Array | Int32Array>(array: T, make: (n: number) => T): T => {
+      const next = make(capacity);
+      next.set(array);
+      return next;
+    };
+    const f32 = (n: number) => new Float32Array(n);
+    this.x = resize(this.x, f32);
+    this.y = resize(this.y, f32);
+    this.vx = resize(this.vx, f32);
+    this.vy = resize(this.vy, f32);
+    this.fx = resize(this.fx, f32);
+    this.fy = resize(this.fy, f32);
+    this.mass = resize(this.mass, f32);
+    this.radius = resize(this.radius, f32);
+    this.health = resize(this.health, f32);
+    this.maxHealth = resize(this.maxHealth, f32);
+    this.age = resize(this.age, f32);
+    this.flags = resize(this.flags, n => new Uint8Array(n));
+    this.owner = resize(this.owner, n => new Uint8Array(n));
+    this.material = resize(this.material, n => new Uint8Array(n));
+    this.handles = resize(this.handles, n => new Int32Array(n));
+  }
+
+  private ensureHandleCapacity(handle: number) {
+    if (handle < this.slots.length) return;
+    let size = Math.max(1, this.slots.length);
+    while (size <= handle) size *= 2;
+    const slots = new Int32Array(size).fill(-1);
+    slots.set(this.slots);
+    this.slots = slots;
+  }
+
+  // Append a particle and return its handle
+  add(init: ParticleInit, handle: number = this.freeHandles.pop() ?? this.nextHandle++): number {
+    if (this.count === this.capacity) this.grow(this.count + 1);
+    this.ensureHandleCapacity(handle);
+
+    const slot = this.count++;
+    this.x[slot] = init.position.x;
+    this.y[slot] = init.position.y;
+    this.vx[slot] = init.velocity.x;
+    this.vy[slot] = init.velocity.y;
+    this.fx[slot] = init.force.x;
+    this.fy[slot] = init.force.y;
+    this.mass[slot] = init.mass;
+    this.radius[slot] = init.radius;
+    this.health[slot] = init.health ?? 1;
+    this.maxHealth[slot] = init.maxHealth ?? init.health ?? 1;
+    this.age[slot] = init.age ?? 0;
+    this.flags[slot] =
+      (init.isFixed ? FLAG_FIXED : 0) |
+      (init.type === 'eye' ? FLAG_EYE : 0) |
+      (init.isEmitted ? FLAG_EMITTED : 0);
+    this.owner[slot] = init.owner ?? 0;
+    this.material[slot] = MATERIAL_IDS.indexOf(init.material ?? 'normal');
+    this.handles[slot] = handle;
+    this.slots[handle] = slot;
+    return handle;
+  }
+
+  // Swap-remove: the last particle moves into `slot`
+  remove(slot: number) {
+    const last = --this.count;
+    const handle = this.handles[slot];
+    if (slot !== last) {
+      this.x[slot] = this.x[last];
+      this.y[slot] = this.y[last];
+      this.vx[slot] = this.vx[last];
+      this.vy[slot] = this.vy[last];
+      this.fx[slot] = this.fx[last];
+      this.fy[slot] = this.fy[last];
+      this.mass[slot] = this.mass[last];
+      this.radius[slot] = this.radius[last];
+      this.health[slot] = this.health[last];
+      this.maxHealth[slot] = this.maxHealth[last];
+      this.age[slot] = this.age[last];
+      this.flags[slot] = this.flags[last];
+      this.owner[slot] = this.owner[last];
+      this.material[slot] = this.material[last];
+      this.handles[slot] = this.handles[last];
+      this.slots[this.handles[slot]] = slot;
+    }
+    this.slots[handle] = -1;
+    this.freeHandles.push(handle);
+  }
+
+  // Remove every particle whose health has run out; returns how many went
+  removeDead(): number {
+    let removed = 0;
+    // Walking backwards means the particle swapped in has already been checked
+    for (let slot = this.count - 1; slot >= 0; slot--) {
+      if (this.health[slot] <= 0) {
+        this.remove(slot);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear() {
+    this.count = 0;
+    this.slots.fill(-1);
+    this.freeHandles = [];
+    this.nextHandle = 0;
+  }
+
+  // Current slot of a handle, or -1 if that particle is gone
+  slotOf(handle: number): number {
+    return handle >= 0 && handle < this.slots.length ? this.slots[handle] : -1;
+  }
+
+  isAlive(slot: number): boolean {
+    return this.health[slot] > 0;
+  }
+
+  isEye(slot: number): boolean {
+    return (this.flags[slot] & FLAG_EYE) !== 0;
+  }
+
+  isEmitted(slot: number): boolean {
+    return (this.flags[slot] & FLAG_EMITTED) !== 0;
+  }
+
+  isFixed(slot: number): boolean {
+    return (this.flags[slot] & FLAG_FIXED) !== 0;
+  }
+
+  setEmitted(slot: number, emitted: boolean) {
+    this.flags[slot] = emitted ? this.flags[slot] | FLAG_EMITTED : this.flags[slot] & ~FLAG_EMITTED;
+  }
+
+  setEye(slot: number, eye: boolean) {
+    this.flags[slot] = eye ? this.flags[slot] | FLAG_EYE : this.flags[slot] & ~FLAG_EYE;
+  }
+
+  materialOf(slot: number): MaterialId {
+    return MATERIAL_IDS[this.material[slot]];
+  }
+
+  // Change what a particle is made of; its mass follows the material
+  setMaterial(slot: number, material: MaterialId) {
+    this.material[slot] = MATERIAL_IDS.indexOf(material);
+    this.mass[slot] = MATERIALS[material].mass;
+  }
+
+  // Read-only object view of a live particle, for the renderer and UI
+  view(slot: number): ParticleView {
+    const handle = this.handles[slot];
+    return this.views[handle] ??= new ParticleView(this, handle);
+  }
+
+  *[Symbol.iterator](): IterableIterator<ParticleView> {
+    for (let slot = 0; slot < this.count; slot++) {
+      yield this.view(slot);
+    }
+  }
+
+  // --- Snapshots ---
+
+  // Plain objects in slot order, so restoring reproduces the same layout
+  toObjects(): Particle[] {
+    const particles: Particle[] = [];
+    for (let slot = 0; slot < this.count; slot++) {
+      particles.push(this.view(slot).toObject());
+    }
+    return particles;
+  }
+
+  get freeHandleList(): number[] {
+    return [...this.freeHandles];
+  }
+
+  restore(particles: Particle[], freeHandles: number[]) {
+    this.clear();
+    for (const p of particles) {
+      this.add(p, p.id);
+    }
+    this.freeHandles = [...freeHandles];
+    this.nextHandle = Math.max(-1, ...particles.map(p => p.id), ...freeHandles) + 1;
+  }
+}
+
+// Live, read-only view of one particle through its handle. Reads are only
+// meaningful while the particle is alive.
+export class ParticleView implements Readonly<Particle> {
+  readonly id: number;
+  private store: ParticleStore;
+
+  constructor(store: ParticleStore, id: number) {
+    this.store = store;
+    this.id = id;
+  }
+
+  private get slot(): number {
+    return this.store.slotOf(this.id);
+  }
+
+  get position(): Vector2 {
+    const slot = this.slot;
+    return { x: this.store.x[slot], y: this.store.y[slot] };
+  }
+
+  get velocity(): Vector2 {
+    const slot = this.slot;
+    return { x: this.store.vx[slot], y: this.store.vy[slot] };
+  }
+
+  get force(): Vector2 {
+    const slot = this.slot;
+    return { x: this.store.fx[slot], y: this.store.fy[slot] };
+  }
+
+  get mass(): number {
+    return this.store.mass[this.slot];
+  }
+
+  get radius(): number {
+    return this.store.radius[this.slot];
+  }
+
+  get health(): number {
+    return this.store.health[this.slot];
+  }
+
+  get maxHealth(): number {
+    return this.store.maxHealth[this.slot];
+  }
+
+  get age(): number {
+    return this.store.age[this.slot];
+  }
+
+  get isFixed(): boolean {
+    return this.store.isFixed(this.slot);
+  }
+
+  get isEmitted(): boolean {
+    return this.store.isEmitted(this.slot);
+  }
+
+  get type(): 'body' | 'eye' {
+    return this.store.isEye(this.slot) ? 'eye' : 'body';
+  }
+
+  get owner(): number {
+    return this.store.owner[this.slot];
+  }
+
+  get material(): MaterialId {
+    return this.store.materialOf(this.slot);
+  }
+
+  toObject(): Particle {
+    return {
+      id: this.id,
+      position: this.position,
+      velocity: this.velocity,
+      force: this.force,
+      mass: this.mass,
+      radius: this.radius,
+      isFixed: this.isFixed,
+      type: this.type,
+      isEmitted: this.isEmitted,
+      health: this.health,
+      maxHealth: this.maxHealth,
+      age: this.age,
+      owner: this.owner,
+      material: this.material
+    };
+  }
+}
@@ -1,39 +1,190 @@
-import { Particle, Vector2, SimulationConfig, KeyboardInput, Enemy, GameState } from '../types';
+import { Vector2, SimulationConfig, KeyboardInput, Enemy, EnemyArchetypeId, EnemyProjectile, BossPhase, GameState, SlimeState, SlimeFragment, MaterialId, MaterialPickup, Droplet, Platform, LevelDefinition, LevelEnemy } from '../types';
 import {
-  ENEMY_SIZE,
-  ENEMY_SPEED,
-  ENEMY_DAMAGE,
-  ENEMY_COLOR,
   ENEMY_COUNT,
-  ENEMY_MAX_HEALTH,
   ENEMY_HIT_COOLDOWN,
+  DEFAULT_ENEMY_BEHAVIOR,
   INVINCIBILITY_TIME,
   MAX_HEALTH,
+  MAX_STAMINA,
+  STAMINA_DRAIN,
+  STAMINA_REGEN,
+  ADHESION_FORCE,
+  PLAYER_SPAWN_SPACING,
+  SLIME_KNOCKBACK,
+  ENEMY_GRAVITY,
+  ENEMY_ACCELERATION,
+  ENEMY_AIR_ACCELERATION,
+  ENEMY_SLOWED_SPEED,
+  ENEMY_BULLET_RADIUS,
+  SHOCKWAVE_RADIUS,
   PARTICLE_MAX_HEALTH,
   PARTICLE_HEALTH_DECAY,
+  PARTICLE_LIFETIME,
+  REABSORPTION_VELOCITY_THRESHOLD,
+  REABSORPTION_DISTANCE_THRESHOLD,
+  SLIME_MAX_PARTICLES,
   PARTICLE_DAMAGE,
-  TIME_STEP
+  TIME_STEP,
+  DEFAULT_PLATFORMS,
+  DEFAULT_PICKUPS,
+  PICKUP_RADIUS,
+  DEFAULT_DROPLETS,
+  DROPLET_RADIUS
 } from '../constants';
+import { SpatialHash } from './spatialHash';
+import { ParticleStore } from './particleStore';
+import { FluidSolver } from './fluidSolver';
+import { SpringNetwork } from './springNetwork';
+import { FragmentTracker } from './fragments';
+import { Random, createSeed } from './random';
+import { EngineSnapshot, SNAPSHOT_VERSION, migrateSnapshot } from './snapshot';
+import { Contact, collideCircle, collideBox, resolveContact, shapeBounds } from './collision';
+import { validateLevel } from './level';
+import { EnemyWorld, spawnBehaviorState, updateEnemyBehavior } from './enemyBehavior';
+import { ENEMY_ARCHETYPES, collideEnemy } from './enemyArchetypes';
+import { MATERIALS, MATERIAL_IDS, MATERIALS_BY_INDEX, MaterialHit } from './materials';
 
 // 音效事件类型
 export type SoundEvent = {
-  type: 'jump' | 'launch' | 'bounce' | 'reabsorb' | 'hurt' | 'gameOver' | 'enemyHit' | 'particleDeath';
+  type: 'jump' | 'launch' | 'bounce' | 'reabsorb' | 'hurt' | 'gameOver' | 'enemyHit' | 'particleDeath'
+    | 'enemyTelegraph' | 'enemyShoot' | 'enemyPound' | 'enemyCharge' | 'bossPhase' | 'victory' | 'split' | 'merge'
+    | 'absorb' | 'explode' | 'zap' | 'grow';
   intensity?: number;
+  position?: Vector2; // Where it happened, for particleDeath, enemy attacks, fragments, materials and growth
+  material?: MaterialId; // What was absorbed
 };
 
 // 游戏状态变化事件
 export type GameStateEvent = {
   isGameOver: boolean;
-  particleCount?: number;
+  isVictory?: boolean;
+  slimes?: SlimeStatus[];   // One per player
+  boss?: BossStatus | null; // null when the level has no boss left standing
 };
 
+// What a player's HUD counter shows
+export type SlimeStatus = {
+  particleCount: number; // Launched particles included
+  health: number;
+  isDown: boolean;
+  fragmentCount: number;
+  fragmentName: string | null; // Of the fragment the player steers
+  materials: [MaterialId, number][]; // Particles of each material other than plain slime
+  stamina: number;
+};
+
+// What the boss bar shows
+export type BossStatus = {
+  name: string;
+  health: number;
+  maxHealth: number;
+  phase: number;      // 0-based
+  phaseCount: number;
+};
+
+// Archetypes of the classic layout's random enemies, by index
+const CLASSIC_ARCHETYPES: EnemyArchetypeId[] = ['brute', 'bouncer'];
+
+// Shots bouncing off armor keep this much of their speed into the enemy
+const ARMOR_RESTITUTION = 0.5;
+
+// Enemies bumping into each other keep this much of their closing speed
+const ENEMY_RESTITUTION = 0.2;
+
+// Minions a boss calls in spread out this far to either side of it
+const MINION_SPACING = 50;
+
+// Bounce and floor friction of plain slime; materials scale them
+const WALL_RESTITUTION = 0.5;
+const FLOOR_FRICTION = 0.1;
+
+// Body particles this close to a wall, ceiling or the side or underside of a
+// platform can cling to it
+const CLING_REACH = 4;
+
+// Clinging particles keep this much of their downward speed per fixed step
+const CLING_GRIP = 0.6;
+
+// Explosive shots throw the enemies they catch this hard
+const EXPLOSION_IMPULSE = 300;
+
+// Full HP, nothing pending
+function freshSlime(): SlimeState {
+  return { health: MAX_HEALTH, invincibleTime: 0, jumpCooldown: 0, jumpWasPressed: false, isDown: false, controlledFragment: -1, stamina: MAX_STAMINA };
+}
+
+function freshGameState(playerCount: number): GameState {
+  return { isGameOver: false, isVictory: false, slimes: Array.from({ length: playerCount }, freshSlime) };
+}
+
+// A fresh enemy with an archetype's stock stats, standing at its first patrol point
+function archetypeEnemy(id: number, archetypeId: EnemyArchetypeId, patrolPoints: Vector2[], patrolSpeed: number): Enemy {
+  const archetype = ENEMY_ARCHETYPES[archetypeId];
+  const behavior = { ...DEFAULT_ENEMY_BEHAVIOR, ...archetype.behavior };
+  return {
+    id,
+    archetype: archetypeId,
+    position: { ...patrolPoints[0] },
+    velocity: { x: 0, y: 0 },
+    mass: archetype.mass,
+    walkVelocity: 0,
+    grounded: false,
+    blocked: false,
+    size: archetype.size,
+    patrolPoints,
+    currentPatrolIndex: 0,
+    patrolSpeed,
+    damage: archetype.damage,
+    color: archetype.color,
+    health: archetype.health,
+    maxHealth: archetype.health,
+    isDead: false,
+    behavior,
+    ...spawnBehaviorState(behavior, archetype.attack),
+    phases: structuredClone(archetype.phases),
+    phase: 0,
+    slowTime: 0
+  };
+}
+
+// Closest of some points, or null if there are none
+function nearest(points: Vector2[], from: Vector2): Vector2 | null {
+  let best: Vector2 | null = null;
+  let bestDistance = Infinity;
+  for (const point of points) {
+    const distance = Math.hypot(point.x - from.x, point.y - from.y);
+    if (distance < bestDistance) {
+      best = point;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
 export class PhysicsEngine {
-  particles: Particle[] = [];
+  // Packed particle data; iterate it for read-only views
+  particles: ParticleStore = new ParticleStore();
+  // Jelly mode springs between body particles (only pull while config.jelly is on)
+  springs: SpringNetwork = new SpringNetwork();
+  // Connected pieces of each slime; every player steers one of theirs
+  private fragmentTracker: FragmentTracker = new FragmentTracker();
   enemies: Enemy[] = [];
+  // Bullets and shockwaves from enemy attacks
+  projectiles: EnemyProjectile[] = [];
+  private nextProjectileId: number = 0;
+  platforms: Platform[] = structuredClone(DEFAULT_PLATFORMS);
+  pickups: MaterialPickup[] = structuredClone(DEFAULT_PICKUPS); // Not yet absorbed
+  droplets: Droplet[] = structuredClone(DEFAULT_DROPLETS);     // Not yet eaten
+  private nextDropletId: number = DEFAULT_DROPLETS.length;
+  level: LevelDefinition | null = null; // null = classic canvas with random enemies
   gameState: GameState;
   width: number;
   height: number;
-  private initialParticleCount: number; // Save for reset
+  private initialParticleCount: number; // Save for reset, per player
+  playerCount: number; // Slimes in play, each steered by its own KeyboardInput
+
+  // Seeded PRNG used for every random decision in the simulation
+  rng: Random;
 
   // Sound event callback
   onSoundEvent?: (event: SoundEvent) => void;
@@ -41,33 +192,66 @@ export class PhysicsEngine {
   // Game state change callback
   onGameStateChange?: (state: GameStateEvent) => void;
 
-  // Jump state
-  private jumpCooldown: number = 0;
-  private jumpWasPressed: boolean = false;
-
   // Collision sound cooldown (prevent too many sounds)
   private bounceSoundCooldown: number = 0;
 
+  // Particle ids resting on an upward-facing surface during the last update
+  private groundedParticles: Set<number> = new Set();
+  // Particle ids next to a wall, ceiling or overhang during the last update,
+  // with the surface normal (pointing away from it)
+  private clingContacts: Map<number, Vector2> = new Map();
+
   // Enemy hit cooldowns (map enemyId -> cooldown time)
   private enemyHitCooldowns: Map<number, number> = new Map();
 
-  constructor(width: number, height: number, particleCount: number) {
+  // Broad phase grid for neighbor queries, cell size follows config.interactionRadius
+  private grid: SpatialHash = new SpatialHash(50);
+  private gridCellSize: number = 50;
+  private neighborScratch: number[] = [];
+
+  // SPH / PBF state, used when config.solver picks one of them
+  private fluid: FluidSolver = new FluidSolver();
+
+  // Scratch vectors for the platform collision helpers
+  private contactPosition: Vector2 = { x: 0, y: 0 };
+  private contactVelocity: Vector2 = { x: 0, y: 0 };
+
+  // Floor and platform friction factors per material (then per platform),
+  // rebuilt only when the platforms or the update's dt change
+  private floorFriction: number[] = [];
+  private platformFriction: number[][] = [];
+  private frictionPlatforms: Platform[] | null = null;
+  private frictionDt: number = 0;
+
+  constructor(width: number, height: number, particleCount: number, seed: number = createSeed(), playerCount: number = 1) {
     this.width = width;
     this.height = height;
     this.initialParticleCount = particleCount;
-    this.gameState = {
-      isGameOver: false
-    };
-    this.initSlime(particleCount);
+    this.playerCount = playerCount;
+    this.rng = new Random(seed);
+    this.gameState = freshGameState(playerCount);
+    this.initSlimes(particleCount);
     this.initEnemies(ENEMY_COUNT);
   }
 
-  // Initialize a random cluster of particles
-  initSlime(count: number) {
-    this.particles = [];
-    const centerX = this.width / 2;
-    const centerY = this.height / 2;
+  // One slime of `count` particles per player, side by side around the spawn point
+  initSlimes(count: number) {
+    this.particles.clear();
+    const spawnX = this.level ? this.level.spawn.x : this.width / 2;
+    const centerY = this.level ? this.level.spawn.y : this.height / 2;
+    for (let player = 0; player < this.playerCount; player++) {
+      const offset = (player - (this.playerCount - 1) / 2) * PLAYER_SPAWN_SPACING;
+      const centerX = Math.max(80, Math.min(this.width - 80, spawnX + offset));
+      this.initSlime(count, player, centerX, centerY);
+    }
 
+    // Link neighbouring body particles in their spawn shape
+    this.rebuildGrid();
+    this.springs.build(this.particles, this.grid);
+  }
+
+  // Initialize a random cluster of particles
+  private initSlime(count: number, owner: number, centerX: number, centerY: number) {
     // Spawn in a rough circle
     for (let i = 0; i < count; i++) {
       let x, y;
@@ -82,18 +266,17 @@ export class PhysicsEngine {
          y = centerY - 15;
       } else {
          // Random position for body particles
-         const angle = Math.random() * Math.PI * 2;
-         const r = Math.sqrt(Math.random()) * 80;
+         const angle = this.rng.next() * Math.PI * 2;
+         const r = Math.sqrt(this.rng.next()) * 80;
          x = centerX + Math.cos(angle) * r;
          y = centerY + Math.sin(angle) * r;
       }
 
-      this.particles.push({
-        id: i,
+      this.particles.add({
         position: { x, y },
         velocity: {
-            x: (Math.random() - 0.5) * 50,
-            y: (Math.random() - 0.5) * 50
+            x: (this.rng.next() - 0.5) * 50,
+            y: (this.rng.next() - 0.5) * 50
         },
         force: { x: 0, y: 0 },
         mass: 1,
@@ -102,187 +285,162 @@ export class PhysicsEngine {
         type: isEye ? 'eye' : 'body',
         isEmitted: false, // Initially all particles are in-body
         health: 100, // All particles start with health
-        maxHealth: 100
+        maxHealth: 100,
+        owner
       });
     }
   }
 
-  launchParticle() {
+  // Slots of a player's in-body particles that can be launched (not eyes, not
+  // already emitted), from the fragment they steer once fragments are known
+  private launchableSlots(player: number): number[] {
+    const s = this.particles;
+    const fragment = this.fragmentTracker.byId(this.gameState.slimes[player]?.controlledFragment ?? -1);
+    const members = fragment ? new Set(fragment.particles) : null;
+    const slots: number[] = [];
+    for (let i = 0; i < s.count; i++) {
+      if (s.owner[i] !== player || s.isEye(i) || s.isEmitted(i)) continue;
+      if (members && !members.has(s.handles[i])) continue;
+      slots.push(i);
+    }
+    return slots;
+  }
+
+  // Every connected piece of the slimes, biggest first
+  get fragments(): readonly SlimeFragment[] {
+    return this.fragmentTracker.fragments;
+  }
+
+  // Hand a player's controls to their next fragment
+  cycleFragment(player: number) {
+    const slime = this.gameState.slimes[player];
+    if (!slime || slime.isDown) return;
+    const next = this.fragmentTracker.next(player, slime.controlledFragment);
+    if (!next || next.id === slime.controlledFragment) return;
+    slime.controlledFragment = next.id;
+    this.onGameStateChange?.(this.gameStateEvent());
+  }
+
+  launchParticle(player: number = 0) {
     // Find a body particle (not an eye) that is not emitted to launch
-    const bodyParticles = this.particles.filter(p => p.type !== 'eye' && !p.isEmitted);
+    const bodyParticles = this.launchableSlots(player);
     if (bodyParticles.length === 0) return;
 
     // Pick a random body particle
-    const particle = bodyParticles[Math.floor(Math.random() * bodyParticles.length)];
+    const slot = bodyParticles[Math.floor(this.rng.next() * bodyParticles.length)];
 
-    // Mark as emitted
-    particle.isEmitted = true;
+    // Mark as emitted (projectiles leave the spring network)
+    this.particles.setEmitted(slot, true);
+    this.springs.detach(this.particles.handles[slot]);
 
     // Launch it upward with slight random angle
-    const launchSpeed = 500 + Math.random() * 200;
-    const angle = -Math.PI / 2 + (Math.random() - 0.5) * 0.5; // Upward with slight spread
+    const launchSpeed = 500 + this.rng.next() * 200;
+    const angle = -Math.PI / 2 + (this.rng.next() - 0.5) * 0.5; // Upward with slight spread
 
-    particle.velocity.x = Math.cos(angle) * launchSpeed;
-    particle.velocity.y = Math.sin(angle) * launchSpeed;
+    this.particles.vx[slot] = Math.cos(angle) * launchSpeed;
+    this.particles.vy[slot] = Math.sin(angle) * launchSpeed;
   }
 
-  launchChargedParticle(targetPosition: Vector2, velocityMagnitude: number) {
-    // Find body particles (not eyes) that are not emitted
-    const bodyParticles = this.particles.filter(p => p.type !== 'eye' && !p.isEmitted);
+  launchChargedParticle(targetPosition: Vector2, velocityMagnitude: number, player: number = 0) {
+    const s = this.particles;
+
+    // Find the player's body particles (not eyes) that are not emitted
+    const bodyParticles = this.launchableSlots(player);
     if (bodyParticles.length === 0) return;
 
     // Select bottom-most particle (feels more natural for "launching")
-    let selectedParticle = bodyParticles[0];
+    let selected = bodyParticles[0];
     let maxY = -Infinity;
 
-    for (const p of bodyParticles) {
-      if (p.position.y > maxY) {
-        maxY = p.position.y;
-        selectedParticle = p;
+    for (const i of bodyParticles) {
+      if (s.y[i] > maxY) {
+        maxY = s.y[i];
+        selected = i;
       }
     }
 
-    // Mark as emitted
-    selectedParticle.isEmitted = true;
+    // Mark as emitted (projectiles leave the spring network)
+    s.setEmitted(selected, true);
+    this.springs.detach(s.handles[selected]);
 
     // Set particle health
-    selectedParticle.health = PARTICLE_MAX_HEALTH;
-    selectedParticle.maxHealth = PARTICLE_MAX_HEALTH;
+    s.health[selected] = PARTICLE_MAX_HEALTH;
+    s.maxHealth[selected] = PARTICLE_MAX_HEALTH;
+    s.age[selected] = 0;
 
     // Calculate direction to mouse cursor
-    const dx = targetPosition.x - selectedParticle.position.x;
-    const dy = targetPosition.y - selectedParticle.position.y;
+    const dx = targetPosition.x - s.x[selected];
+    const dy = targetPosition.y - s.y[selected];
     const distance = Math.sqrt(dx * dx + dy * dy);
 
     if (distance < 1) {
       // Default upward if mouse is on particle
-      selectedParticle.velocity.x = 0;
-      selectedParticle.velocity.y = -velocityMagnitude;
+      s.vx[selected] = 0;
+      s.vy[selected] = -velocityMagnitude;
       return;
     }
 
     // Apply velocity in direction of mouse
-    selectedParticle.velocity.x = (dx / distance) * velocityMagnitude;
-    selectedParticle.velocity.y = (dy / distance) * velocityMagnitude;
+    s.vx[selected] = (dx / distance) * velocityMagnitude;
+    s.vy[selected] = (dy / distance) * velocityMagnitude;
 
     // Trigger launch sound event with intensity based on velocity
     const intensity = Math.min(velocityMagnitude / 1200, 1);
     this.onSoundEvent?.({ type: 'launch', intensity });
   }
 
-  // Re-absorption constants
-  private readonly REABSORPTION_VELOCITY_THRESHOLD = 50; // units/sec
-  private readonly REABSORPTION_DISTANCE_THRESHOLD = 35; // units
-
-  // Check if two particles are connected based on distance
-  private areParticlesConnected(p1: Particle, p2: Particle, connectionDistance: number): boolean {
-    const dx = p2.position.x - p1.position.x;
-    const dy = p2.position.y - p1.position.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    return distance < connectionDistance;
-  }
-
-  // Find the largest connected component (main group) based on particle proximity
-  private findMainGroup(interactionRadius: number): Set<number> {
-    const visited = new Set<number>();
-    let mainGroup: Set<number> = new Set();
-    let maxGroupSize = 0;
-
-    // Get indices of alive particles only
-    const aliveIndices: number[] = [];
-    for (let i = 0; i < this.particles.length; i++) {
-      if (this.particles[i].health === undefined || this.particles[i].health > 0) {
-        aliveIndices.push(i);
-      }
+  // Rebuild the broad phase grid from the current positions of alive particles.
+  // Items are particle slots, so it must be rebuilt whenever positions move or particles are removed.
+  private rebuildGrid() {
+    const s = this.particles;
+    this.grid.clear(this.gridCellSize);
+    for (let i = 0; i < s.count; i++) {
+      if (!s.isAlive(i)) continue;
+      this.grid.insert(i, s.x[i], s.y[i], s.radius[i]);
     }
-
-    // Build adjacency list for alive particles only
-    const adjacency = new Map<number, Set<number>>();
-    for (const i of aliveIndices) {
-      adjacency.set(i, new Set());
-    }
-
-    // Find connections between particles using the connection check function
-    for (let idx = 0; idx < aliveIndices.length; idx++) {
-      for (let jdx = idx + 1; jdx < aliveIndices.length; jdx++) {
-        const i = aliveIndices[idx];
-        const j = aliveIndices[jdx];
-        const pA = this.particles[i];
-        const pB = this.particles[j];
-
-        if (this.areParticlesConnected(pA, pB, interactionRadius)) {
-          adjacency.get(i)!.add(j);
-          adjacency.get(j)!.add(i);
-        }
-      }
-    }
-
-    // BFS to find connected components
-    for (const i of aliveIndices) {
-      if (visited.has(i)) continue;
-
-      const currentGroup: Set<number> = new Set();
-      const queue: number[] = [i];
-
-      while (queue.length > 0) {
-        const current = queue.shift()!;
-
-        if (visited.has(current)) continue;
-        visited.add(current);
-        currentGroup.add(current);
-
-        const neighbors = adjacency.get(current)!;
-        for (const neighbor of neighbors) {
-          if (!visited.has(neighbor)) {
-            queue.push(neighbor);
-          }
-        }
-      }
-
-      // Update main group if current is larger
-      if (currentGroup.size > maxGroupSize) {
-        maxGroupSize = currentGroup.size;
-        mainGroup = currentGroup;
-      }
-    }
-
-    return mainGroup;
   }
 
-  // Check if emitted particles should be re-absorbed into the main body
-  checkReabsorption() {
-    const bodyParticles = this.particles.filter(p => p.type !== 'eye' && (p.health === undefined || p.health > 0));
+  // Check if emitted particles should be re-absorbed into the main body.
+  // Body particles whose springs all tore rejoin the spring network the same way.
+  checkReabsorption(config: SimulationConfig) {
+    this.rebuildGrid();
+    const s = this.particles;
+    const candidates = this.neighborScratch;
+    const maxSpeed = config.reabsorbSpeed ?? REABSORPTION_VELOCITY_THRESHOLD;
+    const maxDistance = config.reabsorbDistance ?? REABSORPTION_DISTANCE_THRESHOLD;
 
-    for (const p of this.particles) {
+    for (let i = 0; i < s.count; i++) {
       // Skip dead particles
-      if (p.health !== undefined && p.health <= 0) continue;
+      if (!s.isAlive(i)) continue;
 
-      // Only check particles that are currently emitted
-      if (!p.isEmitted) continue;
+      // Only check particles that are currently emitted or cut loose from the springs
+      const emitted = s.isEmitted(i);
+      if (!emitted && this.springs.linkCount(s.handles[i]) > 0) continue;
 
-      // Skip eyes (they should never be emitted anyway, but just in case)
-      if (p.type === 'eye') continue;
+      // Skip emitted eyes (they should never be emitted anyway, but just in case)
+      if (emitted && s.isEye(i)) continue;
 
       // Calculate velocity magnitude
-      const velocityMag = Math.sqrt(p.velocity.x * p.velocity.x + p.velocity.y * p.velocity.y);
+      const velocityMag = Math.sqrt(s.vx[i] * s.vx[i] + s.vy[i] * s.vy[i]);
 
       // Check if moving slowly enough
-      if (velocityMag > this.REABSORPTION_VELOCITY_THRESHOLD) continue;
+      if (velocityMag > maxSpeed) continue;
 
-      // Check if near any body particle (in-body)
+      // Check if near any body particle (in-body) of its own slime
       let nearBody = false;
-      for (const bodyP of bodyParticles) {
-        // Skip checking against self
-        if (bodyP.id === p.id) continue;
+      this.grid.queryRadius(s.x[i], s.y[i], maxDistance, candidates);
+      for (const j of candidates) {
+        // Skip checking against self and eyes
+        if (j === i || s.isEye(j)) continue;
 
         // Only consider particles that are not emitted as part of the "main body"
-        if (bodyP.isEmitted) continue;
+        if (s.isEmitted(j) || s.owner[j] !== s.owner[i]) continue;
 
-        const dx = bodyP.position.x - p.position.x;
-        const dy = bodyP.position.y - p.position.y;
+        const dx = s.x[j] - s.x[i];
+        const dy = s.y[j] - s.y[i];
         const dist = Math.sqrt(dx * dx + dy * dy);
 
-        if (dist < this.REABSORPTION_DISTANCE_THRESHOLD) {
+        if (dist < maxDistance) {
           nearBody = true;
           break;
         }
@@ -290,9 +448,13 @@ export class PhysicsEngine {
 
       // Re-absorb if slow and near body
       if (nearBody) {
-        p.isEmitted = false;
-        // Trigger reabsorb sound
-        this.onSoundEvent?.({ type: 'reabsorb' });
+        if (emitted) {
+          s.setEmitted(i, false);
+          // Trigger reabsorb sound
+          this.onSoundEvent?.({ type: 'reabsorb' });
+        }
+        // Re-form springs to the body particles it landed next to
+        this.springs.link(s, this.grid, i);
       }
     }
   }
@@ -302,215 +464,833 @@ export class PhysicsEngine {
     this.enemies = [];
     for (let i = 0; i < count; i++) {
       // Generate random patrol path (3-4 points along the ground)
-      const numPoints = 3 + Math.floor(Math.random() * 2);
+      const numPoints = 3 + Math.floor(this.rng.next() * 2);
       const patrolPoints: Vector2[] = [];
 
+      const archetypeId = CLASSIC_ARCHETYPES[i % CLASSIC_ARCHETYPES.length];
+      const archetype = ENEMY_ARCHETYPES[archetypeId];
+
       // Random starting region (avoiding center where slime spawns)
       const side = i % 2; // 0 = left side, 1 = right side
       const baseX = side === 0 ? this.width * 0.25 : this.width * 0.75;
 
       // Ground level (accounting for enemy size)
-      const groundY = this.height - ENEMY_SIZE / 2 - 4;
+      const groundY = this.height - archetype.size / 2 - 4;
 
       for (let j = 0; j < numPoints; j++) {
         patrolPoints.push({
-          x: baseX + (Math.random() - 0.5) * 200,
+          x: baseX + (this.rng.next() - 0.5) * 200,
           y: groundY
         });
       }
 
-      this.enemies.push({
-        id: i,
-        position: { ...patrolPoints[0] },
-        velocity: { x: 0, y: 0 },
-        size: ENEMY_SIZE,
-        patrolPoints,
-        currentPatrolIndex: 0,
-        patrolSpeed: ENEMY_SPEED + Math.random() * 40,
-        damage: ENEMY_DAMAGE,
-        color: ENEMY_COLOR,
-        health: ENEMY_MAX_HEALTH,
-        maxHealth: ENEMY_MAX_HEALTH,
-        isDead: false
-      });
+      this.enemies.push(archetypeEnemy(i, archetypeId, patrolPoints, archetype.speed + this.rng.next() * 40));
     }
   }
 
-  // Update enemy positions along patrol paths
+  // Spawn the enemies a level describes, each at its first patrol point
+  spawnLevelEnemies(definitions: LevelEnemy[]) {
+    this.enemies = definitions.map((def, i) => ({
+      id: i,
+      archetype: def.archetype,
+      position: { ...def.patrolPoints[0] },
+      velocity: { x: 0, y: 0 },
+      mass: def.mass,
+      walkVelocity: 0,
+      grounded: false,
+      blocked: false,
+      size: def.size,
+      patrolPoints: def.patrolPoints.map(p => ({ ...p })),
+      currentPatrolIndex: 0,
+      patrolSpeed: def.speed,
+      damage: def.damage,
+      color: def.color,
+      health: def.health,
+      maxHealth: def.health,
+      isDead: false,
+      behavior: { ...def.behavior },
+      ...spawnBehaviorState(def.behavior, def.attack),
+      phases: structuredClone(ENEMY_ARCHETYPES[def.archetype].phases),
+      phase: 0,
+      slowTime: 0
+    }));
+  }
+
+  // Validate and switch to a level, then restart on it.
+  // particleCount overrides the level's spawn count (e.g. from the slider).
+  loadLevel(data: unknown, particleCount?: number) {
+    const level = validateLevel(data);
+    this.level = level;
+    this.width = level.world.width;
+    this.height = level.world.height;
+    this.platforms = level.platforms.map((platform, i) => ({ ...structuredClone(platform), id: i }));
+    this.initialParticleCount = particleCount ?? level.spawn.particleCount;
+    this.resetGame();
+  }
+
+  // Run every living enemy's behavior state machine, then move it under
+  // gravity and push enemies apart
   updateEnemies(dt: number) {
     if (this.gameState.isGameOver) return;
 
+    // Each enemy goes after whichever fragment of a slime still standing is closest
+    const targets: Vector2[] = [];
+    this.gameState.slimes.forEach((slime, player) => {
+      if (slime.isDown) return;
+      const fragments = this.fragmentTracker.fragments.filter(fragment => fragment.owner === player);
+      const center = fragments.length === 0 ? this.bodyCenter(player) : null;
+      if (center) targets.push(center);
+      for (const fragment of fragments) targets.push(fragment.center);
+    });
+    const world: EnemyWorld = {
+      target: null,
+      telegraph: enemy => this.onSoundEvent?.({ type: 'enemyTelegraph', position: { ...enemy.position } }),
+      strike: enemy => this.strike(enemy)
+    };
     for (const enemy of this.enemies) {
-      // Get current target patrol point
-      const target = enemy.patrolPoints[enemy.currentPatrolIndex];
-      const dx = target.x - enemy.position.x;
-      const dy = target.y - enemy.position.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-
-      // Move towards target
-      if (dist > 5) {
-        const moveX = (dx / dist) * enemy.patrolSpeed * dt;
-        const moveY = (dy / dist) * enemy.patrolSpeed * dt;
-        enemy.position.x += moveX;
-        enemy.position.y += moveY;
-      } else {
-        // Reached target, move to next point
-        enemy.currentPatrolIndex = (enemy.currentPatrolIndex + 1) % enemy.patrolPoints.length;
+      if (enemy.isDead) continue;
+      world.target = nearest(targets, enemy.position);
+      updateEnemyBehavior(enemy, world, dt);
+      this.integrateEnemy(enemy, dt);
+    }
+    this.separateEnemies();
+  }
+
+  // Carry out an enemy's attack once its wind-up is over
+  private strike(enemy: Enemy) {
+    const attack = enemy.attack;
+    if (!attack) return;
+    const position = { ...enemy.position };
+
+    switch (attack.kind) {
+      case 'shoot':
+        this.spawnProjectile('bullet', position, { x: enemy.aim.x * attack.speed, y: enemy.aim.y * attack.speed },
+          ENEMY_BULLET_RADIUS, attack.damage, attack.range / attack.speed);
+        this.onSoundEvent?.({ type: 'enemyShoot', position });
+        break;
+      case 'pound': {
+        // One wave each way, running along whatever the enemy stands on
+        const groundY = enemy.position.y + enemy.size / 2 - SHOCKWAVE_RADIUS;
+        for (const direction of [-1, 1]) {
+          this.spawnProjectile('shockwave', { x: enemy.position.x, y: groundY }, { x: direction * attack.speed, y: 0 },
+            SHOCKWAVE_RADIUS, attack.damage, attack.range / attack.speed);
+        }
+        this.onSoundEvent?.({ type: 'enemyPound', position });
+        break;
+      }
+      case 'charge':
+        // The charge state does the dashing
+        this.onSoundEvent?.({ type: 'enemyCharge', position });
+        break;
+    }
+  }
+
+  private spawnProjectile(kind: EnemyProjectile['kind'], position: Vector2, velocity: Vector2, radius: number, damage: number, life: number) {
+    this.projectiles.push({ id: this.nextProjectileId++, kind, position, velocity, radius, damage, life });
+  }
+
+  // Move enemy projectiles; bullets stop at level geometry, both run out of
+  // range or leave the world
+  updateProjectiles(dt: number) {
+    for (const projectile of this.projectiles) {
+      projectile.position.x += projectile.velocity.x * dt;
+      projectile.position.y += projectile.velocity.y * dt;
+      projectile.life -= dt;
+
+      const { x, y } = projectile.position;
+      if (x < 0 || x > this.width || y < 0 || y > this.height) {
+        projectile.life = 0;
+      } else if (projectile.kind === 'bullet') {
+        for (const platform of this.platforms) {
+          if (collideCircle(projectile.position, projectile.radius, platform.shape)) {
+            projectile.life = 0;
+            break;
+          }
+        }
+      }
+    }
+    this.projectiles = this.projectiles.filter(projectile => projectile.life > 0);
+  }
+
+  // Projectiles touching a slime's body hurt it; bullets are used up on
+  // contact, shockwaves roll on. Uses the grid checkEnemyCollisions built.
+  checkProjectileCollisions(config: SimulationConfig) {
+    const s = this.particles;
+    const candidates = this.neighborScratch;
+    for (const projectile of this.projectiles) {
+      const { position, radius } = projectile;
+      const pad = radius + this.grid.maxItemRadius;
+      this.grid.queryRect(position.x - pad, position.y - pad, position.x + pad, position.y + pad, candidates);
+      candidates.sort((a, b) => a - b);
+
+      for (const i of candidates) {
+        if (!s.isAlive(i) || s.isEmitted(i)) continue;
+        const reach = radius + s.radius[i];
+        const dx = s.x[i] - position.x;
+        const dy = s.y[i] - position.y;
+        if (dx * dx + dy * dy >= reach * reach) continue;
+
+        const owner = s.owner[i];
+        if (this.gameState.slimes[owner].invincibleTime <= 0) {
+          this.damageSlime(owner, projectile.damage, position, 0, config);
+        }
+        if (projectile.kind === 'bullet') projectile.life = 0;
+        break;
+      }
+    }
+    this.projectiles = this.projectiles.filter(projectile => projectile.life > 0);
+  }
+
+  // Average position of a player's in-body particles, or null if none are left
+  private bodyCenter(owner: number): Vector2 | null {
+    const s = this.particles;
+    let x = 0, y = 0, count = 0;
+    for (let i = 0; i < s.count; i++) {
+      if (!s.isAlive(i) || s.isEmitted(i) || s.owner[i] !== owner) continue;
+      x += s.x[i];
+      y += s.y[i];
+      count++;
+    }
+    return count > 0 ? { x: x / count, y: y / count } : null;
+  }
+
+  // Steer toward the walking speed the behavior picked (a crawl while stuck
+  // in sticky slime), fall, and move against level geometry, the world edges
+  // and the floor
+  private integrateEnemy(enemy: Enemy, dt: number) {
+    const v = enemy.velocity;
+    const maxChange = (enemy.grounded ? ENEMY_ACCELERATION : ENEMY_AIR_ACCELERATION) * dt;
+    const walkVelocity = enemy.slowTime > 0 ? enemy.walkVelocity * ENEMY_SLOWED_SPEED : enemy.walkVelocity;
+    enemy.slowTime = Math.max(0, enemy.slowTime - dt);
+    v.x += Math.max(-maxChange, Math.min(maxChange, walkVelocity - v.x));
+    v.y += ENEMY_GRAVITY * dt;
+
+    enemy.position.x += v.x * dt;
+    enemy.position.y += v.y * dt;
+    enemy.grounded = false;
+    enemy.blocked = false;
+    this.collideEnemyWithPlatforms(enemy);
+
+    const halfSize = enemy.size / 2;
+    const floorY = this.height - halfSize - 4;
+    if (enemy.position.y >= floorY) {
+      enemy.position.y = floorY;
+      v.y = Math.min(v.y, 0);
+      enemy.grounded = true;
+    } else if (enemy.position.y < halfSize) {
+      enemy.position.y = halfSize;
+      v.y = Math.max(v.y, 0);
+    }
+    if (enemy.position.x < halfSize || enemy.position.x > this.width - halfSize) {
+      enemy.position.x = Math.max(halfSize, Math.min(this.width - halfSize, enemy.position.x));
+      v.x = 0;
+      enemy.blocked = true;
+    }
+  }
+
+  // Push an enemy's box out of any overlapping platform and stop it moving
+  // into the surface
+  private collideEnemyWithPlatforms(enemy: Enemy) {
+    const halfSize = enemy.size / 2;
+    const v = enemy.velocity;
+    for (const platform of this.platforms) {
+      const contact = collideBox(enemy.position, halfSize, halfSize, platform.shape);
+      if (!contact) continue;
+      const { normal, depth } = contact;
+      enemy.position.x += normal.x * depth;
+      enemy.position.y += normal.y * depth;
+      const approach = v.x * normal.x + v.y * normal.y;
+      if (approach < 0) {
+        v.x -= normal.x * approach;
+        v.y -= normal.y * approach;
+      }
+      if (normal.y < -0.5) enemy.grounded = true;
+      if (Math.abs(normal.x) > 0.5) enemy.blocked = true;
+    }
+  }
+
+  // Living enemies are boxes to each other: overlapping pairs are pushed apart
+  // along the shallower axis, the lighter one moving further
+  private separateEnemies() {
+    const enemies = this.enemies;
+    for (let i = 0; i < enemies.length; i++) {
+      const a = enemies[i];
+      if (a.isDead) continue;
+      for (let j = i + 1; j < enemies.length; j++) {
+        const b = enemies[j];
+        if (b.isDead) continue;
+
+        const dx = b.position.x - a.position.x;
+        const dy = b.position.y - a.position.y;
+        const reach = (a.size + b.size) / 2;
+        const overlapX = reach - Math.abs(dx);
+        const overlapY = reach - Math.abs(dy);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+
+        // Normal from a to b
+        const alongX = overlapX < overlapY;
+        const nx = alongX ? Math.sign(dx || 1) : 0;
+        const ny = alongX ? 0 : Math.sign(dy || 1);
+        const depth = alongX ? overlapX : overlapY;
+        const shareA = b.mass / (a.mass + b.mass);
+        a.position.x -= nx * depth * shareA;
+        a.position.y -= ny * depth * shareA;
+        b.position.x += nx * depth * (1 - shareA);
+        b.position.y += ny * depth * (1 - shareA);
+
+        // Exchange momentum along the normal if they are closing in
+        const closing = (a.velocity.x - b.velocity.x) * nx + (a.velocity.y - b.velocity.y) * ny;
+        if (closing > 0) {
+          const impulse = (1 + ENEMY_RESTITUTION) * closing / (1 / a.mass + 1 / b.mass);
+          a.velocity.x -= nx * impulse / a.mass;
+          a.velocity.y -= ny * impulse / a.mass;
+          b.velocity.x += nx * impulse / b.mass;
+          b.velocity.y += ny * impulse / b.mass;
+        }
+
+        if (alongX) {
+          a.blocked = true;
+          b.blocked = true;
+        } else {
+          // The one on top stands on the other
+          (ny > 0 ? a : b).grounded = true;
+        }
       }
     }
   }
 
   // Check collisions between enemies and slime particles
-  checkEnemyCollisions() {
+  checkEnemyCollisions(config: SimulationConfig, dt: number = TIME_STEP) {
     // Update enemy hit cooldowns
     for (const [enemyId, cooldown] of this.enemyHitCooldowns) {
       if (cooldown > 0) {
-        this.enemyHitCooldowns.set(enemyId, cooldown - TIME_STEP);
+        this.enemyHitCooldowns.set(enemyId, cooldown - dt);
       }
     }
 
+    // Tick down the slimes' invincibility
+    for (const slime of this.gameState.slimes) {
+      if (slime.invincibleTime > 0) {
+        slime.invincibleTime = Math.max(0, slime.invincibleTime - dt);
+      }
+    }
+
+    this.rebuildGrid();
+    const s = this.particles;
+    const candidates = this.neighborScratch;
+
     for (const enemy of this.enemies) {
       if (enemy.isDead) continue;
 
       const halfSize = enemy.size / 2;
       const hitCooldown = this.enemyHitCooldowns.get(enemy.id) || 0;
-
-      for (const particle of this.particles) {
+      const archetype = ENEMY_ARCHETYPES[enemy.archetype];
+
+      // Broad phase: particles in cells overlapping the enemy box padded by particle radius.
+      // Sorted so hits resolve in slot order, same as a full scan.
+      const pad = halfSize + this.grid.maxItemRadius;
+      this.grid.queryRect(
+        enemy.position.x - pad,
+        enemy.position.y - pad,
+        enemy.position.x + pad,
+        enemy.position.y + pad,
+        candidates
+      );
+      candidates.sort((a, b) => a - b);
+
+      for (const i of candidates) {
         // Skip dead particles
-        if (particle.health !== undefined && particle.health <= 0) continue;
-
-        // Check if particle is inside enemy bounds (AABB collision)
-        const particleLeft = particle.position.x - particle.radius;
-        const particleRight = particle.position.x + particle.radius;
-        const particleTop = particle.position.y - particle.radius;
-        const particleBottom = particle.position.y + particle.radius;
-
-        const enemyLeft = enemy.position.x - halfSize;
-        const enemyRight = enemy.position.x + halfSize;
-        const enemyTop = enemy.position.y - halfSize;
-        const enemyBottom = enemy.position.y + halfSize;
+        if (!s.isAlive(i)) continue;
 
-        if (particleRight > enemyLeft &&
-            particleLeft < enemyRight &&
-            particleBottom > enemyTop &&
-            particleTop < enemyBottom) {
+        // Narrow phase against the archetype's shape
+        const position = this.contactPosition;
+        position.x = s.x[i];
+        position.y = s.y[i];
+        const contact = collideEnemy(enemy, position, s.radius[i]);
+        if (contact) {
 
           // Emitted particle hits enemy - damage enemy
-          if (particle.isEmitted) {
-            if (hitCooldown <= 0) {
-              this.damageEnemy(enemy, PARTICLE_DAMAGE);
-              this.enemyHitCooldowns.set(enemy.id, ENEMY_HIT_COOLDOWN);
-              // Destroy the particle on hit
-              particle.health = 0;
-              this.onSoundEvent?.({ type: 'particleDeath' });
+          if (s.isEmitted(i)) {
+            const impactSpeed = Math.hypot(s.vx[i] - enemy.velocity.x, s.vy[i] - enemy.velocity.y);
+            if (archetype.armor > 0 && impactSpeed < archetype.armor) {
+              // Too weak to get through: bounces off the armor
+              this.bounceShot(i, enemy, contact, ARMOR_RESTITUTION);
+              this.onSoundEvent?.({ type: 'bounce', intensity: Math.min(impactSpeed / archetype.armor, 1) });
+            } else if (hitCooldown <= 0 || archetype.invulnerable) {
+              const hit = MATERIALS_BY_INDEX[s.material[i]].hit;
+              if (!archetype.invulnerable) {
+                this.damageEnemy(enemy, hit.kind === 'crush' ? PARTICLE_DAMAGE * hit.damage : PARTICLE_DAMAGE);
+                this.enemyHitCooldowns.set(enemy.id, ENEMY_HIT_COOLDOWN);
+                this.applyMaterialHit(hit, enemy, { x: s.x[i], y: s.y[i] });
+              }
+              if (hit.kind === 'rebound') {
+                // Bouncy shots fly on
+                this.bounceShot(i, enemy, contact, hit.restitution);
+              } else {
+                // The shot sticks for an instant and hands over its momentum,
+                // then is destroyed (hazards just burst it)
+                const share = s.mass[i] * enemy.mass / (s.mass[i] + enemy.mass);
+                this.pushEnemy(enemy, (s.vx[i] - enemy.velocity.x) * share, (s.vy[i] - enemy.velocity.y) * share);
+                s.health[i] = 0;
+                this.onSoundEvent?.({ type: 'particleDeath', position: { x: s.x[i], y: s.y[i] } });
+              }
             }
           }
-          // Main body particle hits enemy - kill the particle
-          else if (!particle.isEmitted) {
-            particle.health = 0;
-            this.onSoundEvent?.({ type: 'hurt' });
+          // Main body touches enemy - the two repel like a pair of slime particles
+          // pressed together, and that slime takes a hit unless still invincible
+          else {
+            const push = config.repulsionStrength * Math.min(contact.depth / s.radius[i], 1) * dt;
+            s.vx[i] += contact.normal.x * push / s.mass[i];
+            s.vy[i] += contact.normal.y * push / s.mass[i];
+            this.pushEnemy(enemy, -contact.normal.x * push, -contact.normal.y * push);
+            const owner = s.owner[i];
+            if (this.gameState.slimes[owner].invincibleTime <= 0) {
+              // A charge hits harder than walking into it
+              const damage = enemy.state === 'charge' && enemy.attack ? enemy.attack.damage : enemy.damage;
+              this.damageSlime(owner, damage, enemy.position, enemy.size / 2, config);
+            }
           }
         }
       }
     }
   }
 
-  // Damage an enemy
+  // Reflect a launched particle off an enemy it touches (contactPosition holds
+  // its position); the enemy takes the opposite of the shot's change in momentum
+  private bounceShot(i: number, enemy: Enemy, contact: Contact, restitution: number) {
+    const s = this.particles;
+    const position = this.contactPosition;
+    const velocity = this.contactVelocity;
+    velocity.x = s.vx[i] - enemy.velocity.x;
+    velocity.y = s.vy[i] - enemy.velocity.y;
+    resolveContact(position, velocity, contact, restitution, 1);
+    const bounceX = velocity.x + enemy.velocity.x - s.vx[i];
+    const bounceY = velocity.y + enemy.velocity.y - s.vy[i];
+    s.x[i] = position.x;
+    s.y[i] = position.y;
+    s.vx[i] += bounceX;
+    s.vy[i] += bounceY;
+    this.pushEnemy(enemy, -bounceX * s.mass[i], -bounceY * s.mass[i]);
+  }
+
+  // What a shot's material does on top of hitting `enemy` at `at`
+  private applyMaterialHit(hit: MaterialHit, enemy: Enemy, at: Vector2) {
+    switch (hit.kind) {
+      case 'slow':
+        enemy.slowTime = Math.max(enemy.slowTime, hit.duration);
+        break;
+      case 'explode':
+        // Everything else caught in the blast is hurt and thrown outward
+        for (const other of this.enemies) {
+          if (other === enemy || other.isDead || ENEMY_ARCHETYPES[other.archetype].invulnerable) continue;
+          const dx = other.position.x - at.x;
+          const dy = other.position.y - at.y;
+          const distance = Math.hypot(dx, dy);
+          if (distance > hit.radius + other.size / 2) continue;
+          this.damageEnemy(other, hit.damage);
+          this.pushEnemy(other, dx / (distance || 1) * EXPLOSION_IMPULSE, dy / (distance || 1) * EXPLOSION_IMPULSE);
+        }
+        this.onSoundEvent?.({ type: 'explode', position: { ...at } });
+        break;
+      case 'chain': {
+        // Arcs on to the closest other enemy in range
+        let target: Enemy | null = null;
+        let best = hit.range;
+        for (const other of this.enemies) {
+          if (other === enemy || other.isDead || ENEMY_ARCHETYPES[other.archetype].invulnerable) continue;
+          const distance = Math.hypot(other.position.x - enemy.position.x, other.position.y - enemy.position.y);
+          if (distance < best) {
+            target = other;
+            best = distance;
+          }
+        }
+        if (target) {
+          this.damageEnemy(target, hit.damage);
+          this.onSoundEvent?.({ type: 'zap', position: { ...target.position } });
+        }
+        break;
+      }
+    }
+  }
+
+  // Enemy contact or attack on a player's slime: lose HP, shed particles per
+  // config.shedMode, get knocked away from the source (aimed `lift` units
+  // above it) and become invincible for a moment
+  damageSlime(player: number, amount: number, source: Vector2, lift: number, config: SimulationConfig) {
+    const s = this.particles;
+    const slime = this.gameState.slimes[player];
+    const healthBefore = slime.health;
+    const damage = Math.min(amount, healthBefore);
+    slime.health = healthBefore - damage;
+    slime.invincibleTime = INVINCIBILITY_TIME;
+    this.onSoundEvent?.({ type: 'hurt' });
+
+    const center = this.bodyCenter(player);
+    if (!center) return;
+
+    // Body particles, nearest to the enemy first; eyes are never shed
+    const body: number[] = [];
+    for (let i = 0; i < s.count; i++) {
+      if (s.owner[i] === player && s.isAlive(i) && !s.isEmitted(i) && !s.isEye(i)) body.push(i);
+    }
+
+    const shedMode = config.shedMode ?? 'proportional';
+    const shedCount = shedMode === 'perHit' ? Math.floor(config.shedPerHit)
+      : shedMode === 'proportional' && healthBefore > 0 ? Math.round(body.length * damage / healthBefore)
+      : 0;
+    if (shedCount > 0) {
+      const distance = (i: number) => Math.hypot(s.x[i] - source.x, s.y[i] - source.y);
+      body.sort((a, b) => distance(a) - distance(b) || a - b);
+      for (const i of body.slice(0, shedCount)) {
+        s.health[i] = 0;
+      }
+    }
+
+    // Knock what is left of the body away from the source, biased upward
+    let dx = center.x - source.x;
+    let dy = center.y - source.y - lift;
+    const length = Math.hypot(dx, dy) || 1;
+    dx /= length;
+    dy /= length;
+    for (let i = 0; i < s.count; i++) {
+      if (!s.isAlive(i) || s.isEmitted(i) || s.owner[i] !== player) continue;
+      s.vx[i] += dx * SLIME_KNOCKBACK;
+      s.vy[i] += dy * SLIME_KNOCKBACK;
+    }
+  }
+
+  // Apply an impulse to an enemy; lighter enemies fly further
+  pushEnemy(enemy: Enemy, impulseX: number, impulseY: number) {
+    enemy.velocity.x += impulseX / enemy.mass;
+    enemy.velocity.y += impulseY / enemy.mass;
+  }
+
+  // Damage an enemy; bosses move on to their next phase as health drops, and
+  // finishing one off wins the level
   damageEnemy(enemy: Enemy, amount: number) {
     enemy.health = Math.max(0, enemy.health - amount);
     this.onSoundEvent?.({ type: 'enemyHit' });
 
-    // Check if enemy died
+    // Check if enemy died; it leaves a droplet of food behind
     if (enemy.health <= 0) {
       enemy.isDead = true;
+      const drop = ENEMY_ARCHETYPES[enemy.archetype].drop;
+      if (drop > 0) {
+        this.droplets.push({ id: this.nextDropletId++, position: { ...enemy.position }, amount: drop });
+      }
+      if (ENEMY_ARCHETYPES[enemy.archetype].boss) {
+        this.win(enemy);
+      }
+      return;
+    }
+
+    while (enemy.phase < enemy.phases.length && enemy.health <= enemy.maxHealth * enemy.phases[enemy.phase].healthBelow) {
+      this.enterBossPhase(enemy, enemy.phases[enemy.phase]);
+      enemy.phase++;
     }
   }
 
-  // Update particles (remove dead ones, check game over)
-  updateEmittedParticles(dt: number) {
-    const particlesToRemove: number[] = [];
+  // Switch a boss to a new phase and call in its minions
+  private enterBossPhase(boss: Enemy, phase: BossPhase) {
+    boss.patrolSpeed = phase.speed;
+    boss.behavior = { ...boss.behavior, ...phase.behavior };
+    boss.attack = phase.attack && { ...phase.attack };
+    // A short breather before the new attack, and a fresh hop timer
+    boss.attackTimer = 1;
+    boss.jumpTimer = boss.behavior.jumpInterval;
+    // Drop whatever it was in the middle of
+    boss.state = boss.behavior.initialState;
+    boss.stateTime = 0;
+    boss.walkVelocity = 0;
+
+    // Replacing the array (rather than pushing) tells the runner to send the new enemies' looks
+    let nextId = this.enemies.reduce((max, e) => Math.max(max, e.id), -1) + 1;
+    const minions = phase.minions.map((archetypeId, i) => {
+      const side = i % 2 === 0 ? -1 : 1;
+      const x = boss.position.x + side * (boss.size / 2 + MINION_SPACING * (Math.floor(i / 2) + 1));
+      const clampedX = Math.max(0, Math.min(this.width, x));
+      const archetype = ENEMY_ARCHETYPES[archetypeId];
+      const minion = archetypeEnemy(nextId++, archetypeId, [
+        { x: clampedX, y: boss.position.y },
+        { x: clampedX + side * 100, y: boss.position.y }
+      ], archetype.speed);
+      // Minions come looking for the slime
+      minion.behavior.sightRange = Math.max(minion.behavior.sightRange, 400);
+      return minion;
+    });
+    this.enemies = [...this.enemies, ...minions];
+    this.onSoundEvent?.({ type: 'bossPhase', position: { ...boss.position } });
+  }
 
-    for (let i = 0; i < this.particles.length; i++) {
-      const p = this.particles[i];
+  // The boss is down: every other enemy goes with it and the level is won
+  private win(boss: Enemy) {
+    for (const enemy of this.enemies) {
+      if (enemy.isDead) continue;
+      enemy.isDead = true;
+      this.onSoundEvent?.({ type: 'particleDeath', position: { ...enemy.position } });
+    }
+    this.projectiles = [];
+    this.gameState.isVictory = true;
+    this.onSoundEvent?.({ type: 'victory', position: { ...boss.position } });
+  }
 
-      // Check if already dead
-      if (p.health !== undefined && p.health <= 0) {
-        particlesToRemove.push(i);
-      }
+  // The living boss with the most health, for the boss bar
+  private bossStatus(): BossStatus | null {
+    let boss: Enemy | null = null;
+    for (const enemy of this.enemies) {
+      if (enemy.isDead || !ENEMY_ARCHETYPES[enemy.archetype].boss) continue;
+      if (!boss || enemy.health > boss.health) boss = enemy;
     }
+    if (!boss) return null;
+    return {
+      name: ENEMY_ARCHETYPES[boss.archetype].name,
+      health: boss.health,
+      maxHealth: boss.maxHealth,
+      phase: boss.phase,
+      phaseCount: boss.phases.length + 1
+    };
+  }
 
-    // Remove dead particles (from highest index to lowest)
-    for (let i = particlesToRemove.length - 1; i >= 0; i--) {
-      const idx = particlesToRemove[i];
-      this.particles.splice(idx, 1);
+  // Particles of each player, launched ones included
+  private particleCounts(): number[] {
+    const counts = new Array(this.playerCount).fill(0);
+    for (let i = 0; i < this.particles.count; i++) {
+      counts[this.particles.owner[i]]++;
     }
+    return counts;
+  }
 
-    // Check game over: no particles left
-    if (this.particles.length === 0 && !this.gameState.isGameOver) {
-      this.gameState.isGameOver = true;
-      this.onGameStateChange?.({
-        isGameOver: true,
-        particleCount: 0
+  // How many of a player's particles are of each material, plain slime left out
+  private materialCounts(player: number): [MaterialId, number][] {
+    const counts = new Array(MATERIAL_IDS.length).fill(0);
+    for (let i = 0; i < this.particles.count; i++) {
+      if (this.particles.owner[i] === player) counts[this.particles.material[i]]++;
+    }
+    return MATERIAL_IDS.map((id, index): [MaterialId, number] => [id, counts[index]])
+      .filter(([id, count]) => id !== 'normal' && count > 0);
+  }
+
+  gameStateEvent(): GameStateEvent {
+    const counts = this.particleCounts();
+    return {
+      isGameOver: this.gameState.isGameOver,
+      isVictory: this.gameState.isVictory,
+      slimes: this.gameState.slimes.map((slime, player) => ({
+        particleCount: counts[player],
+        health: slime.health,
+        isDown: slime.isDown,
+        fragmentCount: this.fragmentTracker.fragments.filter(fragment => fragment.owner === player).length,
+        fragmentName: this.fragmentTracker.byId(slime.controlledFragment)?.name ?? null,
+        materials: this.materialCounts(player),
+        stamina: slime.stamina
+      })),
+      boss: this.bossStatus()
+    };
+  }
+
+  // Update particles (decay launched ones, remove dead ones, knock out slimes, check game over)
+  updateEmittedParticles(dt: number, config: SimulationConfig) {
+    const s = this.particles;
+    const decay = config.projectileDecay ?? PARTICLE_HEALTH_DECAY;
+    const lifetime = config.projectileLifetime ?? PARTICLE_LIFETIME;
+
+    // Launched particles drain over time and expire when empty or too old
+    for (let i = 0; i < s.count; i++) {
+      if (!s.isEmitted(i) || !s.isAlive(i)) continue;
+      s.health[i] -= decay * dt;
+      s.age[i] += dt;
+      if (s.health[i] <= 0 || (lifetime > 0 && s.age[i] >= lifetime)) {
+        s.health[i] = 0;
+        this.onSoundEvent?.({ type: 'particleDeath', position: { x: s.x[i], y: s.y[i] } });
+      }
+    }
+
+    // Swap-remove dead particles; slots shift but handles stay valid.
+    // Their springs go first, since removed handles get recycled.
+    this.springs.prune(this.particles);
+    this.particles.removeDead();
+
+    // A slime out of HP or particles goes down; the game is over once every
+    // slime is (a won level stays won)
+    if (!this.gameState.isGameOver && !this.gameState.isVictory) {
+      const counts = this.particleCounts();
+      this.gameState.slimes.forEach((slime, player) => {
+        if (!slime.isDown && (slime.health <= 0 || counts[player] === 0)) {
+          slime.isDown = true;
+          if (this.gameState.slimes.some(other => !other.isDown)) this.burstSlime(player);
+        }
       });
+    }
+    if (this.gameState.slimes.every(slime => slime.isDown) && !this.gameState.isGameOver && !this.gameState.isVictory) {
+      this.gameState.isGameOver = true;
+      this.onGameStateChange?.(this.gameStateEvent());
       this.onSoundEvent?.({ type: 'gameOver' });
     } else if (!this.gameState.isGameOver) {
-      // Notify particle count
-      this.onGameStateChange?.({
-        isGameOver: false,
-        particleCount: this.particles.length
-      });
+      // Notify particle count and HP
+      this.onGameStateChange?.(this.gameStateEvent());
     }
   }
 
-  // Reset game
-  resetGame() {
-    this.gameState = {
-      isGameOver: false
-    };
-    this.enemyHitCooldowns.clear();
+  // A downed slime while its partner plays on: what is left of it pops and
+  // is removed with the next dead particles
+  private burstSlime(player: number) {
+    const s = this.particles;
+    const center = this.bodyCenter(player);
+    for (let i = 0; i < s.count; i++) {
+      if (s.owner[i] === player) s.health[i] = 0;
+    }
+    if (center) this.onSoundEvent?.({ type: 'particleDeath', position: center });
+  }
 
-    // Reset slime position
-    this.initSlime(this.initialParticleCount);
+  // Current seed (copy this to reproduce a run)
+  get seed(): number {
+    return this.rng.seed;
+  }
+
+  // Reset game, replaying from the current seed unless a new one is given
+  resetGame(seed: number = this.rng.seed) {
+    this.gameState = freshGameState(this.playerCount);
+    this.fragmentTracker.clear();
+    this.rng.reseed(seed);
+    this.enemyHitCooldowns.clear();
+    this.projectiles = [];
+    this.nextProjectileId = 0;
+    this.bounceSoundCooldown = 0;
+    this.groundedParticles.clear();
+    this.clingContacts.clear();
+    this.pickups = this.level
+      ? this.level.pickups.map((pickup, i) => ({ ...structuredClone(pickup), id: i }))
+      : structuredClone(DEFAULT_PICKUPS);
+    this.droplets = this.level
+      ? this.level.droplets.map((droplet, i) => ({ ...structuredClone(droplet), id: i }))
+      : structuredClone(DEFAULT_DROPLETS);
+    this.nextDropletId = this.droplets.length;
+
+    // Reset slime positions
+    this.initSlimes(this.initialParticleCount);
 
     // Reset enemies
-    this.initEnemies(ENEMY_COUNT);
+    if (this.level) {
+      this.spawnLevelEnemies(this.level.enemies);
+    } else {
+      this.initEnemies(ENEMY_COUNT);
+    }
 
     // Notify state change
-    this.onGameStateChange?.({
-      isGameOver: false,
-      particleCount: this.particles.length
-    });
+    this.onGameStateChange?.(this.gameStateEvent());
   }
 
-  update(dt: number, config: SimulationConfig, mousePos: Vector2 | null, isDragging: boolean, keyboardInput?: KeyboardInput) {
-    const N = this.particles.length;
+  // Capture the full simulation state as a JSON-safe snapshot
+  serialize(): EngineSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      width: this.width,
+      height: this.height,
+      initialParticleCount: this.initialParticleCount,
+      seed: this.rng.seed,
+      rngState: this.rng.getState(),
+      particles: this.particles.toObjects(),
+      freeParticleHandles: this.particles.freeHandleList,
+      springs: this.springs.toArray(),
+      fragments: structuredClone(this.fragmentTracker.fragments),
+      nextFragmentId: this.fragmentTracker.nextFragmentId,
+      enemies: structuredClone(this.enemies),
+      projectiles: structuredClone(this.projectiles),
+      nextProjectileId: this.nextProjectileId,
+      platforms: structuredClone(this.platforms),
+      pickups: structuredClone(this.pickups),
+      droplets: structuredClone(this.droplets),
+      nextDropletId: this.nextDropletId,
+      level: structuredClone(this.level),
+      gameState: structuredClone(this.gameState),
+      bounceSoundCooldown: this.bounceSoundCooldown,
+      enemyHitCooldowns: [...this.enemyHitCooldowns],
+      groundedParticles: [...this.groundedParticles],
+      clingContacts: [...this.clingContacts].map(([handle, normal]) => [handle, normal.x, normal.y])
+    };
+  }
 
-    // Find the main group (largest connected component)
-    const mainGroup = this.findMainGroup(config.interactionRadius);
+  // Restore state from a snapshot of this or any older schema version
+  deserialize(data: unknown) {
+    const snapshot = migrateSnapshot(data);
+
+    this.width = snapshot.width;
+    this.height = snapshot.height;
+    this.initialParticleCount = snapshot.initialParticleCount;
+    this.rng.reseed(snapshot.seed);
+    this.rng.setState(snapshot.rngState);
+    this.particles.restore(snapshot.particles, snapshot.freeParticleHandles);
+    this.springs.restore(snapshot.springs);
+    this.fragmentTracker.restore(snapshot.fragments, snapshot.nextFragmentId);
+    this.enemies = structuredClone(snapshot.enemies);
+    this.projectiles = structuredClone(snapshot.projectiles);
+    this.nextProjectileId = snapshot.nextProjectileId;
+    this.platforms = structuredClone(snapshot.platforms);
+    this.pickups = structuredClone(snapshot.pickups);
+    this.droplets = structuredClone(snapshot.droplets);
+    this.nextDropletId = snapshot.nextDropletId;
+    this.level = structuredClone(snapshot.level);
+    this.gameState = structuredClone(snapshot.gameState);
+    this.playerCount = this.gameState.slimes.length;
+    this.bounceSoundCooldown = snapshot.bounceSoundCooldown;
+    this.enemyHitCooldowns = new Map(snapshot.enemyHitCooldowns);
+    this.groundedParticles = new Set(snapshot.groundedParticles);
+    this.clingContacts = new Map(snapshot.clingContacts.map(([handle, x, y]) => [handle, { x, y }]));
 
-    // 1. Reset Forces & Apply Gravity
-    for (let i = 0; i < N; i++) {
-      const p = this.particles[i];
-      // Skip dead particles
-      if (p.health !== undefined && p.health <= 0) continue;
-      p.force.x = 0;
-      p.force.y = p.mass * config.gravity;
+    // Notify state change
+    this.onGameStateChange?.(this.gameStateEvent());
+  }
+
+  // Advance one fixed step, split into config.substeps smaller updates.
+  // inputs[n] steers player n's slime; missing entries leave it alone.
+  step(dt: number, config: SimulationConfig, mousePos: Vector2 | null, isDragging: boolean, inputs: KeyboardInput[] = []) {
+    const substeps = Math.max(1, Math.floor(config.substeps ?? 1));
+    const h = dt / substeps;
+    for (let i = 0; i < substeps; i++) {
+      this.update(h, config, mousePos, isDragging, inputs);
     }
+  }
+
+  // Convert a per-step decay factor (tuned at TIME_STEP) to one for an arbitrary dt,
+  // so damping and friction take the same toll per second at any step size
+  private decayFactor(factorPerStep: number, dt: number): number {
+    return Math.pow(factorPerStep, dt / TIME_STEP);
+  }
 
-    // 2. Inter-particle Interactions (O(N^2) - acceptable for N < 300 in JS)
-    // We combine Repulsion (keep apart) and Attraction (hold together)
+  // Materials scale the surfaces' friction
+  private updateSurfaceFriction(dt: number) {
+    if (this.frictionPlatforms === this.platforms && this.frictionDt === dt) return;
+    this.frictionPlatforms = this.platforms;
+    this.frictionDt = dt;
+    this.floorFriction = MATERIALS_BY_INDEX.map(material => this.decayFactor(1 - Math.min(1, FLOOR_FRICTION * material.friction), dt));
+    this.platformFriction = MATERIALS_BY_INDEX.map(material =>
+      this.platforms.map(platform => this.decayFactor(1 - Math.min(1, platform.friction * material.friction), dt)));
+  }
+
+  // Default model: short-range repulsion plus medium-range attraction per pair
+  // (grid broad phase, O(N) for bounded density)
+  private applyPairForces(config: SimulationConfig) {
+    const s = this.particles;
+    const N = s.count;
+    const neighbors = this.neighborScratch;
     for (let i = 0; i < N; i++) {
-      const pA = this.particles[i];
       // Skip dead particles
-      if (pA.health !== undefined && pA.health <= 0) continue;
-
-      for (let j = i + 1; j < N; j++) {
-        const pB = this.particles[j];
-        // Skip dead particles
-        if (pB.health !== undefined && pB.health <= 0) continue;
+      if (!s.isAlive(i)) continue;
+
+      // Visit each pair once (j > i) in ascending order so forces
+      // accumulate in the same order as a full pair loop
+      this.grid.queryRadius(s.x[i], s.y[i], config.interactionRadius, neighbors);
+      let count = 0;
+      // Different players' slimes never pull on each other (see separateSlimes)
+      for (const j of neighbors) {
+        if (j > i && s.owner[j] === s.owner[i]) neighbors[count++] = j;
+      }
+      neighbors.length = count;
+      neighbors.sort((a, b) => a - b);
 
-        const dx = pB.position.x - pA.position.x;
-        const dy = pB.position.y - pA.position.y;
+      for (const j of neighbors) {
+        const dx = s.x[j] - s.x[i];
+        const dy = s.y[j] - s.y[i];
         const distSq = dx * dx + dy * dy;
 
         // Optimization: Skip if too far
@@ -524,7 +1304,7 @@ export class PhysicsEngine {
         let forceMagnitude = 0;
 
         // Extra repulsion between eyes to keep them separated
-        const bothEyes = pA.type === 'eye' && pB.type === 'eye';
+        const bothEyes = s.isEye(i) && s.isEye(j);
 
         // A. Repulsion (Short range, strong)
         // Mimic volume preservation: if closer than nominal diameter, push hard
@@ -537,163 +1317,432 @@ export class PhysicsEngine {
         }
 
         // B. Attraction (Medium range, weak - Cohesion)
-        // Only attract if not too close (to avoid collapse)
+        // Only attract if not too close (to avoid collapse); materials scale it
         if (dist > diameter) {
             const pull = (1 - dist / config.interactionRadius);
-            forceMagnitude += config.attractionStrength * pull * 100; // scaling factor
+            const cohesion = (MATERIALS_BY_INDEX[s.material[i]].cohesion + MATERIALS_BY_INDEX[s.material[j]].cohesion) / 2;
+            forceMagnitude += config.attractionStrength * pull * 100 * cohesion; // scaling factor
         }
 
         const fx = nx * forceMagnitude;
         const fy = ny * forceMagnitude;
 
-        pA.force.x += fx;
-        pA.force.y += fy;
-        pB.force.x -= fx;
-        pB.force.y -= fy;
+        s.fx[i] += fx;
+        s.fy[i] += fy;
+        s.fx[j] -= fx;
+        s.fy[j] -= fy;
       }
     }
+  }
 
-    // 3. Mouse Interaction (Force Field) - Only affects main group
-    if (mousePos && isDragging) {
-      for (let i = 0; i < this.particles.length; i++) {
-        if (!mainGroup.has(i)) continue; // Only affect main group
+  // Move and jump one slime's steered fragment from its player's keys
+  private steerSlime(group: Set<number>, slime: SlimeState, keyboardInput: KeyboardInput, config: SimulationConfig, dt: number) {
+    const s = this.particles;
+    const N = s.count;
 
-        const p = this.particles[i];
-        const dx = mousePos.x - p.position.x;
-        const dy = mousePos.y - p.position.y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
+    // Force field approach for movement (similar to mouse interaction)
+    // This keeps the slime's shape intact
+    const moveForceMagnitude = 15; // Force field strength
+    const moveFieldRadius = 200; // Radius of the force field
 
-        if (dist < config.mouseInteractionRadius) {
-            // Pull towards mouse
-            const forceFactor = (1 - dist / config.mouseInteractionRadius);
-            p.force.x += dx * forceFactor * config.mouseForce * 0.05;
-            p.force.y += dy * forceFactor * config.mouseForce * 0.05;
+    // Calculate fragment center for force field positioning
+    let centerX = 0, centerY = 0, count = 0;
+    for (let i = 0; i < N; i++) {
+      if (group.has(i) && !s.isEmitted(i)) {
+        centerX += s.x[i];
+        centerY += s.y[i];
+        count++;
+      }
+    }
+    if (count > 0) {
+      centerX /= count;
+      centerY /= count;
+    }
 
-            // Damping near mouse to stabilize grabbing
-            p.velocity.x *= 0.8;
-            p.velocity.y *= 0.8;
+    // Apply movement force field to steered fragment only
+    for (let i = 0; i < N; i++) {
+      if (!group.has(i)) continue; // Only control the steered fragment
+      if (s.isEmitted(i)) continue; // Don't control emitted particles
+
+      // Horizontal movement via force field
+      if (keyboardInput.left || keyboardInput.right) {
+        const direction = keyboardInput.left ? -1 : 1;
+        const targetX = centerX + direction * moveFieldRadius;
+        const dx = targetX - s.x[i];
+        const dy = centerY - s.y[i]; // Pull toward center Y to maintain shape
+        const dist = Math.sqrt(dx * dx + dy * dy);
+
+        if (dist < moveFieldRadius) {
+          const forceFactor = (1 - dist / moveFieldRadius);
+          s.fx[i] += direction * forceFactor * moveForceMagnitude * 10;
         }
+
+        // Direct horizontal force for more responsive movement
+        s.fx[i] += direction * moveForceMagnitude * 20;
       }
     }
 
-    // 3.5. Keyboard Controls (Movement & Jump) - Only affects main group
-    if (keyboardInput) {
-      // Force field approach for movement (similar to mouse interaction)
-      // This keeps the slime's shape intact
-      const moveForceMagnitude = 15; // Force field strength
-      const moveFieldRadius = 200; // Radius of the force field
+    // Adhesion: while the stick key is held and stamina lasts, particles next
+    // to a wall or ceiling are pulled onto it and carry their own weight; the
+    // rest of the body hangs on by cohesion. Pushing into a wall climbs it,
+    // lifting the whole fragment.
+    let clinging = false;
+    if (keyboardInput.stick && slime.stamina > 0) {
+      const adhesion = config.adhesionForce ?? ADHESION_FORCE;
+      const grip = this.decayFactor(CLING_GRIP, dt);
+      const push = keyboardInput.left ? -1 : keyboardInput.right ? 1 : 0;
+      let climbing = false;
+      for (let i = 0; i < N; i++) {
+        if (!group.has(i) || s.isEmitted(i)) continue;
+        const normal = this.clingContacts.get(s.handles[i]);
+        if (!normal) continue;
+
+        clinging = true;
+        climbing = climbing || push * normal.x < -0.5;
+        s.fx[i] -= normal.x * adhesion * s.mass[i];
+        s.fy[i] -= normal.y * adhesion * s.mass[i] + s.mass[i] * config.gravity;
+        if (s.vy[i] > 0) s.vy[i] *= grip;
+      }
 
-      // Calculate main group center for force field positioning
-      let centerX = 0, centerY = 0, count = 0;
-      for (let i = 0; i < this.particles.length; i++) {
-        if (mainGroup.has(i) && !this.particles[i].isEmitted) {
-          centerX += this.particles[i].position.x;
-          centerY += this.particles[i].position.y;
-          count++;
+      if (climbing) {
+        for (let i = 0; i < N; i++) {
+          if (!group.has(i) || s.isEmitted(i)) continue;
+          const weight = this.clingContacts.has(s.handles[i]) ? 0 : s.mass[i] * config.gravity;
+          s.fy[i] -= weight + moveForceMagnitude * 20;
         }
       }
-      if (count > 0) {
-        centerX /= count;
-        centerY /= count;
+    }
+    slime.stamina = clinging
+      ? Math.max(0, slime.stamina - STAMINA_DRAIN * dt)
+      : Math.min(MAX_STAMINA, slime.stamina + STAMINA_REGEN * dt);
+
+    // Jump (impulse-based) - Only affects steered fragment
+    const jumpImpulse = 350;
+    const jumpPressed = keyboardInput.jump;
+    const jumpTriggered = jumpPressed && !slime.jumpWasPressed;
+
+    // Check if the fragment is on ground (canvas floor or the top of a platform);
+    // a clinging slime can jump off the wall too
+    let onGround = clinging;
+    for (let i = 0; i < N; i++) {
+      if (!group.has(i) || s.isEmitted(i)) continue;
+      if (s.y[i] >= this.height - config.particleRadius - 8 || this.groundedParticles.has(s.handles[i])) {
+        onGround = true;
+        break;
+      }
+    }
+
+    if (jumpTriggered && onGround && slime.jumpCooldown <= 0) {
+      for (let i = 0; i < N; i++) {
+        if (group.has(i) && !s.isEmitted(i)) {
+          s.vy[i] = -jumpImpulse;
+        }
       }
+      slime.jumpCooldown = 0.25;
+      // Trigger jump sound
+      this.onSoundEvent?.({ type: 'jump' });
+    }
 
-      // Apply movement force field to main group particles only
-      for (let i = 0; i < this.particles.length; i++) {
-        if (!mainGroup.has(i)) continue; // Only control main group
-        const p = this.particles[i];
-        if (p.isEmitted) continue; // Don't control emitted particles
+    slime.jumpWasPressed = jumpPressed;
 
-        // Horizontal movement via force field
-        if (keyboardInput.left || keyboardInput.right) {
-          const direction = keyboardInput.left ? -1 : 1;
-          const targetX = centerX + direction * moveFieldRadius;
-          const dx = targetX - p.position.x;
-          const dy = centerY - p.position.y; // Pull toward center Y to maintain shape
-          const dist = Math.sqrt(dx * dx + dy * dy);
+    // Update cooldown
+    if (slime.jumpCooldown > 0) {
+      slime.jumpCooldown -= dt;
+    }
+  }
 
-          if (dist < moveFieldRadius) {
-            const forceFactor = (1 - dist / moveFieldRadius);
-            p.force.x += direction * forceFactor * moveForceMagnitude * 10;
-          }
+  // Track the slimes' fragments. Pieces that just merged are knitted together
+  // with springs where they touch.
+  private updateFragments(config: SimulationConfig) {
+    const s = this.particles;
+    const changes = this.fragmentTracker.update(s, this.grid, config.interactionRadius, this.gameState.slimes);
+    for (const change of changes) {
+      if (change.type === 'merge') {
+        for (const slot of change.slots) this.springs.link(s, this.grid, slot);
+      }
+      this.onSoundEvent?.({ type: change.type, position: { ...change.fragment.center } });
+    }
+  }
 
-          // Direct horizontal force for more responsive movement
-          p.force.x += direction * moveForceMagnitude * 20;
+  // The first slime body to touch a pickup absorbs it: that many of its body
+  // particles nearest the pickup (eyes aside, ones already of the material
+  // left alone) turn into the pickup's material
+  private collectPickups(config: SimulationConfig) {
+    const s = this.particles;
+    const reach = PICKUP_RADIUS + config.particleRadius;
+    this.pickups = this.pickups.filter(pickup => {
+      const { x, y } = pickup.position;
+      let owner = -1;
+      for (let i = 0; i < s.count; i++) {
+        if (!s.isAlive(i) || s.isEmitted(i)) continue;
+        if (Math.hypot(s.x[i] - x, s.y[i] - y) < reach) {
+          owner = s.owner[i];
+          break;
         }
       }
+      if (owner < 0) return true;
 
-      // Jump (impulse-based) - Only affects main group
-      const jumpImpulse = 350;
-      const jumpPressed = keyboardInput.jump;
-      const jumpTriggered = jumpPressed && !this.jumpWasPressed;
+      const material = MATERIAL_IDS.indexOf(pickup.material);
+      const body: number[] = [];
+      for (let i = 0; i < s.count; i++) {
+        if (s.owner[i] === owner && s.isAlive(i) && !s.isEmitted(i) && !s.isEye(i) && s.material[i] !== material) body.push(i);
+      }
+      const distance = (i: number) => Math.hypot(s.x[i] - x, s.y[i] - y);
+      body.sort((a, b) => distance(a) - distance(b) || a - b);
+      for (const i of body.slice(0, pickup.amount)) {
+        s.setMaterial(i, pickup.material);
+      }
+      this.onSoundEvent?.({ type: 'absorb', position: { ...pickup.position }, material: pickup.material });
+      return false;
+    });
+  }
 
-      // Check if main group is on ground
-      let onGround = false;
-      for (let i = 0; i < this.particles.length; i++) {
-        if (mainGroup.has(i) && !this.particles[i].isEmitted && this.particles[i].position.y >= this.height - config.particleRadius - 8) {
-          onGround = true;
+  // A slime body touching a droplet grows its particles where they touched,
+  // as many as fit under config.maxSlimeParticles; a full slime leaves it lying
+  private collectDroplets(config: SimulationConfig) {
+    const s = this.particles;
+    const reach = DROPLET_RADIUS + config.particleRadius;
+    const cap = config.maxSlimeParticles ?? SLIME_MAX_PARTICLES;
+    this.droplets = this.droplets.filter(droplet => {
+      const { x, y } = droplet.position;
+      let toucher = -1;
+      for (let i = 0; i < s.count; i++) {
+        if (!s.isAlive(i) || s.isEmitted(i)) continue;
+        if (Math.hypot(s.x[i] - x, s.y[i] - y) < reach) {
+          toucher = i;
           break;
         }
       }
+      if (toucher < 0) return true;
+
+      const owner = s.owner[toucher];
+      const room = cap - this.particleCounts()[owner];
+      if (room <= 0) return true;
+
+      // New particles in a small ring around the point of contact, moving with the body
+      const count = Math.min(droplet.amount, room);
+      const contactX = (s.x[toucher] + x) / 2;
+      const contactY = (s.y[toucher] + y) / 2;
+      const vx = s.vx[toucher];
+      const vy = s.vy[toucher];
+      for (let k = 0; k < count; k++) {
+        const angle = (k / count) * Math.PI * 2;
+        const slot = s.count;
+        s.add({
+          position: { x: contactX + Math.cos(angle) * config.particleRadius * 0.5, y: contactY + Math.sin(angle) * config.particleRadius * 0.5 },
+          velocity: { x: vx, y: vy },
+          force: { x: 0, y: 0 },
+          mass: 1,
+          isFixed: false,
+          radius: 10,
+          type: 'body',
+          isEmitted: false,
+          health: 100,
+          maxHealth: 100,
+          owner
+        });
+        this.springs.link(s, this.grid, slot);
+      }
+      this.onSoundEvent?.({ type: 'grow', position: { x: contactX, y: contactY } });
+      return false;
+    });
+  }
 
-      if (jumpTriggered && onGround && this.jumpCooldown <= 0) {
-        for (let i = 0; i < this.particles.length; i++) {
-          if (mainGroup.has(i) && !this.particles[i].isEmitted) {
-            this.particles[i].velocity.y = -jumpImpulse;
-          }
+  // Co-op: particles of different slimes never pull on each other; after
+  // integration any two closer than a particle diameter are moved apart and
+  // lose their closing speed, like colliding with a wall. A force alone is not
+  // enough, since the whole body pushes behind the few particles in contact.
+  private separateSlimes(config: SimulationConfig) {
+    const s = this.particles;
+    const neighbors = this.neighborScratch;
+    const diameter = config.particleRadius * 2;
+    this.rebuildGrid();
+    for (let i = 0; i < s.count; i++) {
+      if (!s.isAlive(i)) continue;
+      this.grid.queryRadius(s.x[i], s.y[i], diameter, neighbors);
+      for (const j of neighbors) {
+        if (j <= i || s.owner[j] === s.owner[i]) continue;
+        const dx = s.x[j] - s.x[i];
+        const dy = s.y[j] - s.y[i];
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist >= diameter || dist === 0) continue;
+
+        // Split the overlap evenly, then cancel the approach along the normal
+        const nx = dx / dist;
+        const ny = dy / dist;
+        const correction = (diameter - dist) / 2;
+        s.x[i] -= nx * correction;
+        s.y[i] -= ny * correction;
+        s.x[j] += nx * correction;
+        s.y[j] += ny * correction;
+
+        const closing = (s.vx[i] - s.vx[j]) * nx + (s.vy[i] - s.vy[j]) * ny;
+        if (closing > 0) {
+          s.vx[i] -= nx * closing / 2;
+          s.vy[i] -= ny * closing / 2;
+          s.vx[j] += nx * closing / 2;
+          s.vy[j] += ny * closing / 2;
         }
-        this.jumpCooldown = 0.25;
-        // Trigger jump sound
-        this.onSoundEvent?.({ type: 'jump' });
       }
+    }
+  }
+
+  update(dt: number, config: SimulationConfig, mousePos: Vector2 | null, isDragging: boolean, inputs: KeyboardInput[] = []) {
+    const s = this.particles;
+    const N = s.count;
+
+    // Build the broad phase grid for this tick
+    this.gridCellSize = config.interactionRadius;
+    this.rebuildGrid();
+
+    // Find every slime fragment; each player's input only moves the one they steer
+    this.updateFragments(config);
+    const controlledGroups = this.gameState.slimes.map(slime => this.fragmentTracker.controlledGroup(slime));
+
+    // 1. Reset Forces & Apply Gravity
+    for (let i = 0; i < N; i++) {
+      // Skip dead particles
+      if (!s.isAlive(i)) continue;
+      s.fx[i] = 0;
+      s.fy[i] = s.mass[i] * config.gravity;
+    }
+
+    // 2. Inter-particle Interactions. Older replays and configs predate `solver`.
+    // PBF has no forces here; it corrects positions after integration instead.
+    const solver = config.solver ?? 'pairwise';
+    if (solver === 'pairwise') {
+      this.applyPairForces(config);
+    } else if (solver === 'sph') {
+      this.fluid.applySphForces(s, this.grid, config);
+    }
 
-      this.jumpWasPressed = jumpPressed;
+    // 2.5. Jelly springs hold the body's shape on top of the fluid model
+    if (config.jelly) {
+      this.springs.applyForces(s, config);
+    }
+
+    // 3. Mouse Interaction (Force Field) - Only affects player 1's steered fragment
+    if (mousePos && isDragging) {
+      const group = controlledGroups[0];
+      const grabDamping = this.decayFactor(0.8, dt);
+      for (let i = 0; i < N; i++) {
+        if (!group.has(i)) continue; // Only affect the steered fragment
+
+        const dx = mousePos.x - s.x[i];
+        const dy = mousePos.y - s.y[i];
+        const dist = Math.sqrt(dx * dx + dy * dy);
+
+        if (dist < config.mouseInteractionRadius) {
+            // Pull towards mouse
+            const forceFactor = (1 - dist / config.mouseInteractionRadius);
+            s.fx[i] += dx * forceFactor * config.mouseForce * 0.05;
+            s.fy[i] += dy * forceFactor * config.mouseForce * 0.05;
 
-      // Update cooldown
-      if (this.jumpCooldown > 0) {
-        this.jumpCooldown -= dt;
+            // Damping near mouse to stabilize grabbing
+            s.vx[i] *= grabDamping;
+            s.vy[i] *= grabDamping;
+        }
+      }
+    }
+
+    // 3.5. Keyboard Controls (Movement & Jump) - each player's input only moves the fragment they steer
+    for (let player = 0; player < this.playerCount; player++) {
+      const keyboardInput = inputs[player];
+      if (keyboardInput) {
+        this.steerSlime(controlledGroups[player], this.gameState.slimes[player], keyboardInput, config, dt);
       }
     }
 
     // 4. Integration
-    for (const p of this.particles) {
+    if (solver === 'pbf') {
+      this.fluid.savePositions(s);
+    }
+    const damping = this.decayFactor(config.damping, dt);
+    for (let i = 0; i < N; i++) {
       // Skip dead particles
-      if (p.health !== undefined && p.health <= 0) continue;
+      if (!s.isAlive(i)) continue;
+
+      const ax = s.fx[i] / s.mass[i];
+      const ay = s.fy[i] / s.mass[i];
 
-      const ax = p.force.x / p.mass;
-      const ay = p.force.y / p.mass;
+      // Global Damping (Viscosity), time-corrected
+      s.vx[i] = (s.vx[i] + ax * dt) * damping;
+      s.vy[i] = (s.vy[i] + ay * dt) * damping;
 
-      p.velocity.x += ax * dt;
-      p.velocity.y += ay * dt;
+      s.x[i] += s.vx[i] * dt;
+      s.y[i] += s.vy[i] * dt;
+    }
 
-      // Global Damping (Viscosity)
-      p.velocity.x *= config.damping;
-      p.velocity.y *= config.damping;
+    // 4.2. PBF: project the integrated positions onto the density constraint
+    if (solver === 'pbf') {
+      this.rebuildGrid();
+      this.fluid.solvePositions(s, this.grid, config, dt);
+    }
 
-      p.position.x += p.velocity.x * dt;
-      p.position.y += p.velocity.y * dt;
+    // 4.3. Co-op: keep the slimes from passing through each other
+    if (this.playerCount > 1) {
+      this.separateSlimes(config);
     }
 
     // 4.5. Check for re-absorption of emitted particles
-    this.checkReabsorption();
+    this.checkReabsorption(config);
 
     // 5. Boundaries
     let playedBounceSound = false;
     let maxImpactSpeed = 0;
+    this.updateSurfaceFriction(dt);
+    const floorFriction = this.floorFriction;
+    const platformFriction = this.platformFriction;
+    const platformBounds = this.platforms.map(platform => shapeBounds(platform.shape));
+    const position = this.contactPosition;
+    const velocity = this.contactVelocity;
+    this.groundedParticles.clear();
+    this.clingContacts.clear();
 
-    for (const p of this.particles) {
+    for (let i = 0; i < N; i++) {
       // Skip dead particles
-      if (p.health !== undefined && p.health <= 0) continue;
+      if (!s.isAlive(i)) continue;
 
       const r = config.particleRadius;
-      const bounce = 0.5;
+      const material = MATERIALS_BY_INDEX[s.material[i]];
+      const bounce = Math.min(1, WALL_RESTITUTION * material.restitution);
+
+      // Level geometry (collision helpers work on vectors, so copy in and back out)
+      position.x = s.x[i];
+      position.y = s.y[i];
+      velocity.x = s.vx[i];
+      velocity.y = s.vy[i];
+      for (let k = 0; k < this.platforms.length; k++) {
+        const bounds = platformBounds[k];
+        if (position.x + r < bounds.minX || position.x - r > bounds.maxX ||
+            position.y + r < bounds.minY || position.y - r > bounds.maxY) {
+          continue;
+        }
+
+        const platform = this.platforms[k];
+        const contact = collideCircle(position, r, platform.shape);
+        if (!contact) continue;
+
+        const restitution = Math.min(1, platform.restitution * material.restitution);
+        const impactSpeed = resolveContact(position, velocity, contact, restitution, platformFriction[s.material[i]][k]);
+        if (contact.normal.y < -0.5) {
+          this.groundedParticles.add(s.handles[i]);
+        } else if (!s.isEmitted(i)) {
+          this.clingContacts.set(s.handles[i], { x: contact.normal.x, y: contact.normal.y });
+        }
+        if (impactSpeed > maxImpactSpeed) {
+          maxImpactSpeed = impactSpeed;
+        }
+        playedBounceSound = true;
+      }
 
       // Floor
-      if (p.position.y > this.height - r) {
-        const impactSpeed = Math.abs(p.velocity.y);
-        p.position.y = this.height - r;
-        p.velocity.y *= -bounce;
+      if (position.y > this.height - r) {
+        const impactSpeed = Math.abs(velocity.y);
+        position.y = this.height - r;
+        velocity.y *= -bounce;
         // Floor friction
-        p.velocity.x *= 0.9;
+        velocity.x *= floorFriction[s.material[i]];
 
         // Track impact speed for sound
         if (impactSpeed > maxImpactSpeed) {
@@ -702,19 +1751,35 @@ export class PhysicsEngine {
         playedBounceSound = true;
       }
       // Ceiling
-      if (p.position.y < r) {
-        p.position.y = r;
-        p.velocity.y *= -bounce;
+      if (position.y < r) {
+        position.y = r;
+        velocity.y *= -bounce;
       }
       // Walls
-      if (p.position.x > this.width - r) {
-        p.position.x = this.width - r;
-        p.velocity.x *= -bounce;
+      if (position.x > this.width - r) {
+        position.x = this.width - r;
+        velocity.x *= -bounce;
+      }
+      if (position.x < r) {
+        position.x = r;
+        velocity.x *= -bounce;
       }
-      if (p.position.x < r) {
-        p.position.x = r;
-        p.velocity.x *= -bounce;
+
+      // Within reach of a wall or the ceiling, for the stick key
+      if (!s.isEmitted(i)) {
+        if (position.y < r + CLING_REACH) {
+          this.clingContacts.set(s.handles[i], { x: 0, y: 1 });
+        } else if (position.x > this.width - r - CLING_REACH) {
+          this.clingContacts.set(s.handles[i], { x: -1, y: 0 });
+        } else if (position.x < r + CLING_REACH) {
+          this.clingContacts.set(s.handles[i], { x: 1, y: 0 });
+        }
       }
+
+      s.x[i] = position.x;
+      s.y[i] = position.y;
+      s.vx[i] = velocity.x;
+      s.vy[i] = velocity.y;
     }
 
     // Play bounce sound if there was a significant impact and cooldown allows
@@ -729,15 +1794,21 @@ export class PhysicsEngine {
       this.bounceSoundCooldown -= dt;
     }
 
-    // 6. Update enemies
+    // 5.5. Slimes soak up the material pickups and eat the droplets they touch
+    this.collectPickups(config);
+    this.collectDroplets(config);
+
+    // 6. Update enemies and their projectiles
     this.updateEnemies(dt);
+    this.updateProjectiles(dt);
 
     // 6.5. Update emitted particles (health decay)
-    this.updateEmittedParticles(dt);
+    this.updateEmittedParticles(dt, config);
 
     // 7. Check enemy collisions (skip if game over)
     if (!this.gameState.isGameOver) {
-      this.checkEnemyCollisions();
+      this.checkEnemyCollisions(config, dt);
+      this.checkProjectileCollisions(config);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,13 @@
+// 物理 Worker 入口 - 在独立线程中运行 SimulationRunner
+import { HostCommand } from './engineProtocol';
+import { SimulationRunner, runSimulationClock } from './simulationRunner';
+
+// The DOM lib types `self` as a Window; inside a dedicated worker it posts with a transfer list
+const scope = self as unknown as {
+  postMessage(message: unknown, transfer: Transferable[]): void;
+  onmessage: ((e: MessageEvent<HostCommand>) => void) | null;
+};
+
+const runner = new SimulationRunner((event, transfer) => scope.postMessage(event, transfer ?? []));
+scope.onmessage = (e) => runner.handle(e.data);
+runSimulationClock(runner);
@@ -0,0 +1,52 @@
+// 可设定种子的伪随机数生成器（mulberry32）
+// Every random decision in the simulation goes through one of these so that
+// the same seed + same inputs reproduce a run exactly.
+
+export class Random {
+  private state: number;
+  seed: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Restart the sequence, optionally from a new seed
+  reseed(seed: number = this.seed) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Internal position in the sequence, for snapshots
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number) {
+    this.state = state >>> 0;
+  }
+
+  // Uniform float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Uniform float in [min, max)
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Uniform integer in [0, maxExclusive)
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+}
+
+// Pick a fresh 32-bit seed for a new run
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
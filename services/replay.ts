@@ -0,0 +1,318 @@
+// 录像与回放 - 记录每一帧输入，之后用同样的种子确定性地重放
+// A replay only stores inputs; the engine is rebuilt from the recorded seed
+// and stepped with those inputs, which reproduces the run exactly.
+
+import { SimulationConfig, KeyboardInput, Vector2, LevelDefinition } from '../types';
+import { PhysicsEngine } from './physicsEngine';
+
+export const REPLAY_VERSION = 5;
+
+export type ReplayMode = 'live' | 'recording' | 'playback';
+
+// Discrete inputs applied before the tick they are stamped with
+export type ReplayEvent =
+  | { tick: number; type: 'chargeStart' }
+  | { tick: number; type: 'chargeRelease' }
+  | { tick: number; type: 'launch'; target: Vector2; velocity: number; player?: number } // v3+; player 1 before
+  | { tick: number; type: 'switchFragment'; player: number } // v4+
+  | { tick: number; type: 'config'; config: SimulationConfig }
+  | { tick: number; type: 'reset'; seed: number };
+
+export interface ReplayFile {
+  version: number;
+  seed: number;
+  width: number;
+  height: number;
+  particleCount: number;         // Per player
+  players: number;               // v3+; older replays had one slime
+  level: LevelDefinition | null; // v2+; v1 replays always ran the classic layout
+  dt: number;
+  config: SimulationConfig;
+  tickCount: number;
+  keys: number[];                              // Run-length pairs: [keyMask, ticks, ...], KEY_BITS per player from bit 0 up (3 before v5)
+  mouse: [number | null, number | null, number][]; // Run-length triples: [x, y, ticks], null when off-canvas
+  events: ReplayEvent[];
+}
+
+// Keyboard bits of one player in the key mask
+const KEY_LEFT = 1;
+const KEY_RIGHT = 2;
+const KEY_JUMP = 4;
+const KEY_STICK = 8; // v5+
+const KEY_BITS = 4;
+
+// Bits per player in a replay of the given version
+function keyBits(version: number): number {
+  return version >= 5 ? KEY_BITS : 3;
+}
+
+function encodeKeys(inputs: KeyboardInput[]): number {
+  let mask = 0;
+  inputs.forEach((input, player) => {
+    const bits = (input.left ? KEY_LEFT : 0) | (input.right ? KEY_RIGHT : 0) | (input.jump ? KEY_JUMP : 0) | (input.stick ? KEY_STICK : 0);
+    mask |= bits << (player * KEY_BITS);
+  });
+  return mask;
+}
+
+function decodeKeys(mask: number, players: number, bitsPerPlayer: number): KeyboardInput[] {
+  const inputs: KeyboardInput[] = [];
+  for (let player = 0; player < players; player++) {
+    const bits = mask >> (player * bitsPerPlayer);
+    inputs.push({
+      left: (bits & KEY_LEFT) !== 0,
+      right: (bits & KEY_RIGHT) !== 0,
+      jump: (bits & KEY_JUMP) !== 0,
+      stick: bitsPerPlayer > 3 && (bits & KEY_STICK) !== 0
+    });
+  }
+  return inputs;
+}
+
+// Mouse is only used for rendering and aiming, one decimal is plenty
+function roundCoord(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export class ReplayRecorder {
+  private header: Omit<ReplayFile, 'tickCount' | 'keys' | 'mouse' | 'events'>;
+  private tick: number = 0;
+  private keys: number[] = [];
+  private mouse: [number | null, number | null, number][] = [];
+  private events: ReplayEvent[] = [];
+
+  // The engine must be in its freshly reset state for the current seed
+  constructor(engine: PhysicsEngine, config: SimulationConfig, dt: number) {
+    this.header = {
+      version: REPLAY_VERSION,
+      seed: engine.seed,
+      width: engine.width,
+      height: engine.height,
+      particleCount: engine.particles.count / engine.playerCount,
+      players: engine.playerCount,
+      level: structuredClone(engine.level),
+      dt,
+      config: { ...config }
+    };
+  }
+
+  // Index of the next tick to be simulated
+  get currentTick(): number {
+    return this.tick;
+  }
+
+  recordChargeStart() {
+    this.events.push({ tick: this.tick, type: 'chargeStart' });
+  }
+
+  recordChargeRelease() {
+    this.events.push({ tick: this.tick, type: 'chargeRelease' });
+  }
+
+  recordLaunch(target: Vector2, velocity: number, player: number) {
+    this.events.push({ tick: this.tick, type: 'launch', target: { ...target }, velocity, player });
+  }
+
+  recordSwitchFragment(player: number) {
+    this.events.push({ tick: this.tick, type: 'switchFragment', player });
+  }
+
+  recordConfig(config: SimulationConfig) {
+    this.events.push({ tick: this.tick, type: 'config', config: { ...config } });
+  }
+
+  recordReset(seed: number) {
+    this.events.push({ tick: this.tick, type: 'reset', seed });
+  }
+
+  // Call once per tick, right before engine.step()
+  recordTick(inputs: KeyboardInput[], mousePos: Vector2 | null) {
+    const mask = encodeKeys(inputs);
+    const lastKey = this.keys.length - 2;
+    if (lastKey >= 0 && this.keys[lastKey] === mask) {
+      this.keys[lastKey + 1]++;
+    } else {
+      this.keys.push(mask, 1);
+    }
+
+    const x = mousePos ? roundCoord(mousePos.x) : null;
+    const y = mousePos ? roundCoord(mousePos.y) : null;
+    const lastMouse = this.mouse[this.mouse.length - 1];
+    if (lastMouse && lastMouse[0] === x && lastMouse[1] === y) {
+      lastMouse[2]++;
+    } else {
+      this.mouse.push([x, y, 1]);
+    }
+
+    this.tick++;
+  }
+
+  finish(): ReplayFile {
+    return {
+      ...this.header,
+      tickCount: this.tick,
+      keys: [...this.keys],
+      mouse: this.mouse.map(run => [...run] as [number | null, number | null, number]),
+      events: [...this.events]
+    };
+  }
+}
+
+// Validate and parse a replay file's JSON text
+export function parseReplay(text: string): ReplayFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('回放文件不是有效的 JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('回放文件格式错误');
+  }
+  const data = parsed as Record<string, unknown>;
+  const version = data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > REPLAY_VERSION) {
+    throw new Error(`不支持的回放版本: ${version}`);
+  }
+  for (const key of ['seed', 'width', 'height', 'particleCount', 'dt', 'tickCount']) {
+    if (typeof data[key] !== 'number') {
+      throw new Error(`回放文件缺少字段: ${key}`);
+    }
+  }
+  if (!data.config || typeof data.config !== 'object' || !Array.isArray(data.keys) || !Array.isArray(data.mouse) || !Array.isArray(data.events)) {
+    throw new Error('回放文件缺少输入数据');
+  }
+
+  const replay = parsed as ReplayFile;
+  return { ...replay, players: replay.players ?? 1, level: replay.level ?? null };
+}
+
+export class ReplayPlayer {
+  readonly replay: ReplayFile;
+  private keyMasks: Uint8Array;
+  private mousePositions: (Vector2 | null)[];
+  private eventsByTick: Map<number, ReplayEvent[]> = new Map();
+  private config: SimulationConfig;
+  private chargeStartTick: number | null = null;
+
+  // Next tick to simulate
+  tick: number = 0;
+
+  constructor(replay: ReplayFile) {
+    this.replay = replay;
+    this.config = { ...replay.config };
+
+    // Expand run-length data so any tick can be looked up directly
+    this.keyMasks = new Uint8Array(replay.tickCount);
+    let t = 0;
+    for (let i = 0; i + 1 < replay.keys.length; i += 2) {
+      this.keyMasks.fill(replay.keys[i], t, t + replay.keys[i + 1]);
+      t += replay.keys[i + 1];
+    }
+
+    this.mousePositions = [];
+    for (const [x, y, run] of replay.mouse) {
+      const pos = x === null || y === null ? null : { x, y };
+      for (let i = 0; i < run; i++) {
+        this.mousePositions.push(pos);
+      }
+    }
+
+    for (const event of replay.events) {
+      const list = this.eventsByTick.get(event.tick);
+      if (list) {
+        list.push(event);
+      } else {
+        this.eventsByTick.set(event.tick, [event]);
+      }
+    }
+  }
+
+  get isFinished(): boolean {
+    return this.tick >= this.replay.tickCount;
+  }
+
+  // Config in effect at the current tick
+  get currentConfig(): SimulationConfig {
+    return this.config;
+  }
+
+  mouseAt(tick: number): Vector2 | null {
+    return this.mousePositions[Math.min(tick, this.mousePositions.length - 1)] ?? null;
+  }
+
+  // Charge progress (0-1) at the current tick, or null when not charging
+  get chargeLevel(): number | null {
+    if (this.chargeStartTick === null) return null;
+    return Math.min((this.tick - this.chargeStartTick) * this.replay.dt, 1.0);
+  }
+
+  // Build a fresh engine in the recorded starting state
+  createEngine(): PhysicsEngine {
+    const { width, height, particleCount, seed, players, level } = this.replay;
+    const engine = new PhysicsEngine(width, height, particleCount, seed, players);
+    if (level) {
+      engine.loadLevel(level, particleCount);
+    }
+    return engine;
+  }
+
+  // Simulate one recorded tick; returns false once the replay has ended
+  step(engine: PhysicsEngine): boolean {
+    if (this.isFinished) return false;
+
+    for (const event of this.eventsByTick.get(this.tick) ?? []) {
+      switch (event.type) {
+        case 'chargeStart':
+          this.chargeStartTick = this.tick;
+          break;
+        case 'chargeRelease':
+          this.chargeStartTick = null;
+          break;
+        case 'launch':
+          engine.launchChargedParticle(event.target, event.velocity, event.player ?? 0);
+          break;
+        case 'switchFragment':
+          engine.cycleFragment(event.player);
+          break;
+        case 'config':
+          this.config = { ...event.config };
+          break;
+        case 'reset':
+          engine.resetGame(event.seed);
+          break;
+      }
+    }
+
+    engine.step(this.replay.dt, this.config, this.mouseAt(this.tick), false, decodeKeys(this.keyMasks[this.tick], this.replay.players, keyBits(this.replay.version)));
+    this.tick++;
+    return true;
+  }
+
+  // Rebuild the engine and fast-forward to the target tick.
+  // Callbacks are attached by the caller afterwards so the skipped ticks stay silent.
+  seek(targetTick: number): PhysicsEngine {
+    const engine = this.createEngine();
+    this.tick = 0;
+    this.config = { ...this.replay.config };
+    this.chargeStartTick = null;
+
+    const target = Math.max(0, Math.min(targetTick, this.replay.tickCount));
+    while (this.tick < target) {
+      this.step(engine);
+    }
+    return engine;
+  }
+}
+
+// Trigger a browser download of the replay as JSON
+export function downloadReplay(replay: ReplayFile, filename: string = `slime-replay-${replay.seed}.json`) {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
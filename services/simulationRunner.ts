@@ -0,0 +1,307 @@
+// 模拟运行器 - 拥有物理引擎、固定步长时钟、录像/回放，并通过消息协议与界面通信
+// The same runner backs both the Web Worker and the in-thread fallback, so the
+// two paths only differ in how messages are delivered.
+
+import { SimulationConfig, KeyboardInput, Vector2, LevelDefinition, Enemy, Platform } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, DEFAULT_CONFIG, TIME_STEP } from '../constants';
+import { PhysicsEngine } from './physicsEngine';
+import { createSeed } from './random';
+import { ReplayRecorder, ReplayPlayer, ReplayMode, parseReplay } from './replay';
+import { HostCommand, HostEvent, encodeParticles, encodeEnemies, encodeProjectiles, encodeSprings } from './engineProtocol';
+
+export type EmitEvent = (event: HostEvent, transfer?: Transferable[]) => void;
+
+export class SimulationRunner {
+  private engine: PhysicsEngine | null = null;
+  private config: SimulationConfig = DEFAULT_CONFIG;
+  private particleCount: number = DEFAULT_CONFIG.particleCount;
+  private players: number = 1;
+  private level: LevelDefinition | null = null;
+
+  // Latest live input from the UI, one entry per player
+  private keys: KeyboardInput[] = [];
+  private mouse: Vector2 | null = null;
+
+  private paused: boolean = false;
+  private accumulator: number = 0;
+  private lastTime: number | null = null;
+
+  private recorder: ReplayRecorder | null = null;
+  private player: ReplayPlayer | null = null;
+  private playbackPaused: boolean = false;
+
+  // Arrays last described by a world event; a new array means enemies or geometry were rebuilt
+  private sentEnemies: Enemy[] | null = null;
+  private sentPlatforms: Platform[] | null = null;
+
+  private emit: EmitEvent;
+
+  constructor(emit: EmitEvent) {
+    this.emit = emit;
+  }
+
+  handle(command: HostCommand) {
+    switch (command.type) {
+      case 'init':
+        this.particleCount = command.particleCount;
+        this.players = command.players;
+        this.level = command.level;
+        this.config = command.config;
+        // A new engine invalidates any recording or playback in progress
+        this.recorder = null;
+        this.player = null;
+        this.bind(this.createEngine());
+        this.emitReplayMode();
+        break;
+
+      case 'config':
+        this.config = command.config;
+        this.recorder?.recordConfig(command.config);
+        break;
+
+      case 'input':
+        this.keys = command.keys;
+        this.mouse = command.mouse;
+        break;
+
+      case 'pause':
+        this.paused = command.paused;
+        this.lastTime = null;
+        break;
+
+      case 'chargeStart':
+        this.recorder?.recordChargeStart();
+        break;
+
+      case 'chargeCancel':
+        this.recorder?.recordChargeRelease();
+        break;
+
+      case 'launch':
+        if (!this.engine || this.player) return;
+        this.recorder?.recordLaunch(command.target, command.velocity, command.player);
+        // Only player 1's charge (the mouse) is recorded
+        if (command.player === 0) this.recorder?.recordChargeRelease();
+        this.engine.launchChargedParticle(command.target, command.velocity, command.player);
+        break;
+
+      case 'switchFragment':
+        if (!this.engine || this.player) return;
+        this.recorder?.recordSwitchFragment(command.player);
+        this.engine.cycleFragment(command.player);
+        this.emitFrame();
+        break;
+
+      case 'reset':
+        if (!this.engine) return;
+        this.engine.resetGame();
+        this.recorder?.recordReset(this.engine.seed);
+        this.emitFrame();
+        break;
+
+      case 'startRecording':
+        if (!this.engine) return;
+        // Recording always starts from a fresh reset so the seed alone reproduces it
+        this.engine.resetGame();
+        this.recorder = new ReplayRecorder(this.engine, this.config, TIME_STEP);
+        this.emitReplayMode();
+        this.emitFrame();
+        break;
+
+      case 'stopRecording':
+        if (!this.recorder) return;
+        this.emit({ type: 'recording', replay: this.recorder.finish() });
+        this.recorder = null;
+        this.emitReplayMode();
+        break;
+
+      case 'loadReplay':
+        try {
+          const player = new ReplayPlayer(parseReplay(command.text));
+          this.recorder = null;
+          this.player = player;
+          this.playbackPaused = false;
+          this.bind(player.createEngine());
+          this.emitReplayMode();
+        } catch (err) {
+          this.emit({ type: 'error', scope: 'replay', message: err instanceof Error ? err.message : String(err) });
+        }
+        break;
+
+      case 'togglePlayback':
+        if (!this.player) return;
+        // Restart from the beginning when play is pressed at the end
+        if (this.playbackPaused && this.player.isFinished) {
+          this.bind(this.player.seek(0));
+        }
+        this.playbackPaused = !this.playbackPaused;
+        this.emitFrame();
+        break;
+
+      case 'seek':
+        if (!this.player) return;
+        this.bind(this.player.seek(command.tick));
+        break;
+
+      case 'exitPlayback':
+        this.player = null;
+        this.bind(this.createEngine());
+        this.emitReplayMode();
+        break;
+
+      case 'save':
+        if (!this.engine) return;
+        this.emit({ type: 'snapshot', slot: command.slot, snapshot: this.engine.serialize() });
+        break;
+
+      case 'load':
+        if (!this.engine) return;
+        // Jumping to another state would desync the recording or the replay
+        if (this.recorder || this.player) {
+          this.emit({ type: 'error', scope: 'load', message: '录制或回放中无法读档' });
+          return;
+        }
+        try {
+          this.engine.deserialize(command.snapshot);
+          this.emitFrame();
+          this.emit({ type: 'loaded', slot: command.slot });
+        } catch (err) {
+          this.emit({ type: 'error', scope: 'load', message: err instanceof Error ? err.message : String(err) });
+        }
+        break;
+    }
+  }
+
+  // Run as many fixed steps as real time allows; `now` is in milliseconds
+  advance(now: number) {
+    const lastTime = this.lastTime;
+    this.lastTime = now;
+    if (!this.engine || this.paused) return;
+
+    this.accumulator += lastTime === null ? TIME_STEP : (now - lastTime) / 1000;
+
+    const maxSteps = Math.max(1, this.config.maxStepsPerFrame);
+    let steps = 0;
+    while (this.accumulator >= TIME_STEP && steps < maxSteps) {
+      this.fixedStep(this.engine);
+      this.accumulator -= TIME_STEP;
+      steps++;
+    }
+
+    // Too far behind (slow machine, throttled tab): drop the backlog instead of spiraling
+    if (steps === maxSteps && this.accumulator >= TIME_STEP) {
+      this.accumulator = 0;
+    }
+
+    if (steps > 0) {
+      this.emitFrame();
+    }
+  }
+
+  // Milliseconds until the next fixed step is due
+  get msUntilNextStep(): number {
+    return Math.max(0, (TIME_STEP - this.accumulator) * 1000);
+  }
+
+  private fixedStep(engine: PhysicsEngine) {
+    const player = this.player;
+    if (player) {
+      // Playback drives the engine from the replay file instead of live input
+      if (this.playbackPaused) return;
+      if (!player.step(engine)) {
+        this.playbackPaused = true;
+      }
+    } else {
+      this.recorder?.recordTick(this.keys, this.mouse);
+      engine.step(TIME_STEP, this.config, this.mouse, false, this.keys);
+    }
+  }
+
+  // Fresh engine for the current particle count, players and level (or the classic canvas)
+  private createEngine(): PhysicsEngine {
+    const engine = new PhysicsEngine(CANVAS_WIDTH, CANVAS_HEIGHT, this.particleCount, createSeed(), this.players);
+    if (this.level) {
+      engine.loadLevel(this.level, this.particleCount);
+    }
+    return engine;
+  }
+
+  // Hook an engine up to the event stream
+  private bind(engine: PhysicsEngine) {
+    engine.onSoundEvent = (event) => this.emit({ type: 'sound', event });
+    engine.onGameStateChange = (state) => this.emit({ type: 'gameState', state });
+    this.engine = engine;
+    this.sentEnemies = null;
+    this.accumulator = 0;
+
+    this.emit({ type: 'gameState', state: engine.gameStateEvent() });
+    this.emitFrame();
+  }
+
+  private emitReplayMode() {
+    const mode: ReplayMode = this.player ? 'playback' : this.recorder ? 'recording' : 'live';
+    this.emit({ type: 'replayMode', mode, tickCount: this.player?.replay.tickCount ?? 0 });
+  }
+
+  private emitFrame() {
+    const engine = this.engine;
+    if (!engine) return;
+
+    // Resets, loads and new engines replace these arrays
+    if (engine.enemies !== this.sentEnemies || engine.platforms !== this.sentPlatforms) {
+      this.sentEnemies = engine.enemies;
+      this.sentPlatforms = engine.platforms;
+      this.emit({
+        type: 'world',
+        world: {
+          width: engine.width,
+          height: engine.height,
+          seed: engine.seed,
+          platforms: engine.platforms,
+          background: engine.level?.background ?? null,
+          enemyStyles: engine.enemies.map(e => [e.id, { color: e.color, archetype: e.archetype, attack: e.attack?.kind ?? null }])
+        }
+      });
+    }
+
+    const player = this.player;
+    const config = player ? player.currentConfig : this.config;
+    const particles = encodeParticles(engine.particles);
+    const enemies = encodeEnemies(engine.enemies);
+    const projectiles = encodeProjectiles(engine.projectiles);
+    const springs = config.jelly ? encodeSprings(engine.springs, engine.particles) : new Float32Array(0);
+    this.emit({
+      type: 'frame',
+      particles,
+      enemies,
+      projectiles,
+      springs,
+      invincibleTimes: engine.gameState.slimes.map(slime => slime.invincibleTime),
+      fragments: engine.fragments.map(fragment => ({
+        owner: fragment.owner,
+        name: fragment.name,
+        center: fragment.center,
+        controlled: engine.gameState.slimes[fragment.owner]?.controlledFragment === fragment.id
+      })),
+      pickups: engine.pickups,
+      droplets: engine.droplets,
+      replayTick: player ? player.tick : this.recorder?.currentTick ?? 0,
+      playback: player
+        ? { chargeLevel: player.chargeLevel, mouse: player.mouseAt(Math.max(0, player.tick - 1)), paused: this.playbackPaused }
+        : null
+    }, [particles.buffer, enemies.buffer, projectiles.buffer, springs.buffer]);
+  }
+}
+
+// Drive a runner from timers until the returned stop function is called
+export function runSimulationClock(runner: SimulationRunner): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const tick = () => {
+    runner.advance(performance.now());
+    timer = setTimeout(tick, runner.msUntilNextStep);
+  };
+  tick();
+  return () => {
+    if (timer !== null) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,258 @@
+// 引擎状态快照 - 版本化的 JSON 存档与 localStorage 存档槽
+// Snapshots carry a schema version; older saves are upgraded step by step
+// through SNAPSHOT_MIGRATIONS before the engine reads them.
+
+import { Particle, Enemy, EnemyProjectile, GameState, SlimeFragment, MaterialPickup, Droplet, Platform, LevelDefinition } from '../types';
+import { MAX_HEALTH, MAX_STAMINA, DEFAULT_ENEMY_BEHAVIOR } from '../constants';
+import { ENEMY_ARCHETYPES, isEnemyArchetype } from './enemyArchetypes';
+
+export const SNAPSHOT_VERSION = 16;
+
+export interface EngineSnapshot {
+  version: number;
+  width: number;
+  height: number;
+  initialParticleCount: number;
+  seed: number;
+  rngState: number;
+  particles: Particle[];          // In storage slot order
+  freeParticleHandles: number[];  // Released particle ids waiting to be reused
+  springs: [number, number, number][]; // Jelly springs: [particleIdA, particleIdB, restLength]
+  fragments: SlimeFragment[];     // As of the last update
+  nextFragmentId: number;
+  enemies: Enemy[];
+  projectiles: EnemyProjectile[];
+  nextProjectileId: number;
+  platforms: Platform[];
+  pickups: MaterialPickup[];      // Not yet absorbed
+  droplets: Droplet[];            // Not yet eaten
+  nextDropletId: number;
+  level: LevelDefinition | null; // Level the run was started from, used by resetGame
+  gameState: GameState;           // Also decides how many players the run has
+  bounceSoundCooldown: number;
+  enemyHitCooldowns: [number, number][]; // [enemyId, cooldown]
+  groundedParticles: number[];
+  clingContacts: [number, number, number][]; // [particleId, normalX, normalY]
+}
+
+// Each entry upgrades a snapshot from version `key` to `key + 1`
+const SNAPSHOT_MIGRATIONS: Record<number, (data: any) => any> = {
+  // v2: level geometry; v1 worlds were just the canvas rectangle
+  1: data => ({ ...data, platforms: [], groundedParticles: [] }),
+  // v3: level files; older saves were always the classic random layout
+  2: data => ({ ...data, level: null }),
+  // v4: packed particle storage recycles ids; older saves just left gaps
+  3: data => ({ ...data, freeParticleHandles: unusedIds(data.particles ?? []) }),
+  // v5: jelly springs; older saves restore as an unlinked fluid
+  4: data => ({ ...data, springs: [] }),
+  // v6: slime HP; older saves start at full health
+  5: data => ({ ...data, gameState: { health: MAX_HEALTH, invincibleTime: 0, ...data.gameState } }),
+  // v7: enemy behaviors; older enemies (and level enemies) just patrol
+  6: data => ({
+    ...data,
+    enemies: (data.enemies ?? []).map((enemy: any) => ({
+      behavior: { ...DEFAULT_ENEMY_BEHAVIOR },
+      state: 'patrol',
+      stateTime: 0,
+      jumpTimer: 0,
+      takeoffY: enemy.position?.y ?? 0,
+      ...enemy
+    })),
+    level: data.level && {
+      ...data.level,
+      enemies: (data.level.enemies ?? []).map((enemy: any) => ({ behavior: { ...DEFAULT_ENEMY_BEHAVIOR }, ...enemy }))
+    }
+  }),
+  // v8: enemy archetypes; every older enemy was a square brute
+  7: data => ({
+    ...data,
+    enemies: (data.enemies ?? []).map((enemy: any) => ({ archetype: 'brute', ...enemy })),
+    level: data.level && {
+      ...data.level,
+      enemies: (data.level.enemies ?? []).map((enemy: any) => ({ archetype: 'brute', ...enemy }))
+    }
+  }),
+  // v9: enemies with mass that fall and get pushed around; older ones stood
+  // where they were and hopped from a remembered takeoff height
+  8: data => ({
+    ...data,
+    enemies: (data.enemies ?? []).map(({ takeoffY, ...enemy }: any) => ({
+      mass: archetypeMass(enemy.archetype),
+      walkVelocity: enemy.velocity?.x ?? 0,
+      grounded: enemy.state !== 'jump',
+      blocked: false,
+      ...enemy
+    })),
+    level: data.level && {
+      ...data.level,
+      enemies: (data.level.enemies ?? []).map((enemy: any) => ({
+        mass: archetypeMass(enemy.archetype),
+        ...enemy
+      }))
+    }
+  }),
+  // v10: enemy attacks and their projectiles; older enemies only hurt by touch
+  9: data => ({
+    ...data,
+    enemies: (data.enemies ?? []).map((enemy: any) => ({ attack: null, attackTimer: 0, aim: { x: 1, y: 0 }, ...enemy })),
+    projectiles: [],
+    nextProjectileId: 0,
+    level: data.level && {
+      ...data.level,
+      enemies: (data.level.enemies ?? []).map((enemy: any) => ({ attack: null, ...enemy }))
+    }
+  }),
+  // v11: bosses and winning; older saves had neither
+  10: data => ({
+    ...data,
+    enemies: (data.enemies ?? []).map((enemy: any) => ({ phases: [], phase: 0, ...enemy })),
+    gameState: { isVictory: false, ...data.gameState }
+  }),
+  // v12: co-op; older saves had a single slime whose HP and jump state sat
+  // directly on the game state and the engine
+  11: ({ jumpCooldown, jumpWasPressed, ...data }) => {
+    const { health, invincibleTime, ...gameState } = data.gameState ?? {};
+    return {
+      ...data,
+      particles: (data.particles ?? []).map((particle: any) => ({ owner: 0, ...particle })),
+      gameState: {
+        ...gameState,
+        slimes: [{
+          health: health ?? MAX_HEALTH,
+          invincibleTime: invincibleTime ?? 0,
+          jumpCooldown: jumpCooldown ?? 0,
+          jumpWasPressed: jumpWasPressed ?? false,
+          isDown: gameState.isGameOver ?? false
+        }]
+      }
+    };
+  },
+  // v13: slime fragments; older saves find theirs on the next step and steer the biggest
+  12: data => ({
+    ...data,
+    fragments: [],
+    nextFragmentId: 0,
+    gameState: {
+      ...data.gameState,
+      slimes: (data.gameState?.slimes ?? []).map((slime: any) => ({ controlledFragment: -1, ...slime }))
+    }
+  }),
+  // v14: particle materials and pickups; older slimes were plain all through
+  // (particles without a material restore as plain) and older levels had no pickups
+  13: data => ({
+    ...data,
+    enemies: (data.enemies ?? []).map((enemy: any) => ({ slowTime: 0, ...enemy })),
+    pickups: [],
+    level: data.level && { pickups: [], ...data.level }
+  }),
+  // v15: droplets that grow the slime; older saves and levels had none
+  14: data => ({
+    ...data,
+    droplets: [],
+    nextDropletId: 0,
+    level: data.level && { droplets: [], ...data.level }
+  }),
+  // v16: wall and ceiling adhesion; older slimes restore rested
+  15: data => ({
+    ...data,
+    clingContacts: [],
+    gameState: {
+      ...data.gameState,
+      slimes: (data.gameState?.slimes ?? []).map((slime: any) => ({ stamina: MAX_STAMINA, ...slime }))
+    }
+  }),
+};
+
+function archetypeMass(archetype: unknown): number {
+  return ENEMY_ARCHETYPES[isEnemyArchetype(archetype) ? archetype : 'brute'].mass;
+}
+
+// Ids below the highest one in use that no particle holds
+function unusedIds(particles: { id: number }[]): number[] {
+  const used = new Set(particles.map(p => p.id));
+  const maxId = particles.reduce((max, p) => Math.max(max, p.id), -1);
+  const free: number[] = [];
+  for (let id = 0; id < maxId; id++) {
+    if (!used.has(id)) free.push(id);
+  }
+  return free;
+}
+
+// Bring any supported snapshot up to SNAPSHOT_VERSION, validating the result
+export function migrateSnapshot(data: unknown): EngineSnapshot {
+  if (!data || typeof data !== 'object') {
+    throw new Error('存档格式错误');
+  }
+
+  let snapshot: any = data;
+  if (typeof snapshot.version !== 'number') {
+    throw new Error('存档缺少版本号');
+  }
+  if (snapshot.version > SNAPSHOT_VERSION) {
+    throw new Error(`存档版本 ${snapshot.version} 比当前版本 ${SNAPSHOT_VERSION} 更新`);
+  }
+
+  while (snapshot.version < SNAPSHOT_VERSION) {
+    const migrate = SNAPSHOT_MIGRATIONS[snapshot.version];
+    if (!migrate) {
+      throw new Error(`无法迁移版本 ${snapshot.version} 的存档`);
+    }
+    snapshot = { ...migrate(snapshot), version: snapshot.version + 1 };
+  }
+
+  if (!Array.isArray(snapshot.particles) || !Array.isArray(snapshot.enemies) || !snapshot.gameState) {
+    throw new Error('存档缺少引擎数据');
+  }
+
+  return snapshot as EngineSnapshot;
+}
+
+// --- localStorage save slots ---
+
+const SLOT_PREFIX = 'slime-lab:save:';
+export const QUICK_SAVE_SLOT = 'quicksave';
+
+export interface SaveSlot {
+  name: string;
+  savedAt: number; // Date.now() when written
+  snapshot: EngineSnapshot;
+}
+
+export function writeSaveSlot(name: string, snapshot: EngineSnapshot) {
+  const slot: SaveSlot = { name, savedAt: Date.now(), snapshot };
+  localStorage.setItem(SLOT_PREFIX + name, JSON.stringify(slot));
+}
+
+// Returns null when the slot is empty; throws if the stored data can't be migrated
+export function readSaveSlot(name: string): SaveSlot | null {
+  const raw = localStorage.getItem(SLOT_PREFIX + name);
+  if (raw === null) return null;
+
+  let slot: SaveSlot;
+  try {
+    slot = JSON.parse(raw);
+  } catch {
+    throw new Error(`存档 "${name}" 已损坏`);
+  }
+  return { ...slot, snapshot: migrateSnapshot(slot.snapshot) };
+}
+
+export function deleteSaveSlot(name: string) {
+  localStorage.removeItem(SLOT_PREFIX + name);
+}
+
+// Slot names and timestamps, newest first (snapshots are not parsed)
+export function listSaveSlots(): { name: string; savedAt: number }[] {
+  const slots: { name: string; savedAt: number }[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(SLOT_PREFIX)) continue;
+    try {
+      const slot = JSON.parse(localStorage.getItem(key) ?? '');
+      slots.push({ name: key.slice(SLOT_PREFIX.length), savedAt: slot.savedAt ?? 0 });
+    } catch {
+      slots.push({ name: key.slice(SLOT_PREFIX.length), savedAt: 0 });
+    }
+  }
+  return slots.sort((a, b) => b.savedAt - a.savedAt);
+}
@@ -0,0 +1,86 @@
+// 均匀网格空间哈希 - 物理引擎的宽相位（broad phase）邻居查询
+// Cells are keyed by their integer coordinates packed into a single number,
+// so lookups never allocate strings. Buckets are kept between rebuilds and
+// only truncated, which avoids churning arrays every tick.
+
+// cy 占用低 26 位（带符号），cx * 2^26 在 2^53 以内保持精确
+const KEY_STRIDE = 1 << 26;
+
+export class SpatialHash {
+  private cellSize: number;
+  private cells: Map<number, number[]> = new Map();
+  private activeBuckets: number[][] = [];
+
+  // Largest radius among inserted items, used to pad rect queries
+  maxItemRadius: number = 0;
+
+  constructor(cellSize: number) {
+    this.cellSize = Math.max(1, cellSize);
+  }
+
+  // Empty every bucket; drops them entirely if the cell size changes
+  clear(cellSize: number = this.cellSize) {
+    const size = Math.max(1, cellSize);
+    if (size !== this.cellSize) {
+      this.cellSize = size;
+      this.cells.clear();
+    } else {
+      for (const bucket of this.activeBuckets) {
+        bucket.length = 0;
+      }
+    }
+    this.activeBuckets.length = 0;
+    this.maxItemRadius = 0;
+  }
+
+  private cellCoord(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private key(cx: number, cy: number): number {
+    return cx * KEY_STRIDE + cy;
+  }
+
+  // Insert an item (e.g. particle index) at a position
+  insert(index: number, x: number, y: number, radius: number = 0) {
+    const k = this.key(this.cellCoord(x), this.cellCoord(y));
+    let bucket = this.cells.get(k);
+    if (!bucket) {
+      bucket = [];
+      this.cells.set(k, bucket);
+    }
+    if (bucket.length === 0) {
+      this.activeBuckets.push(bucket);
+    }
+    bucket.push(index);
+    if (radius > this.maxItemRadius) {
+      this.maxItemRadius = radius;
+    }
+  }
+
+  // Collect every item whose cell overlaps the rectangle.
+  // Results are candidates only; callers still do the exact distance/overlap test.
+  queryRect(minX: number, minY: number, maxX: number, maxY: number, out: number[] = []): number[] {
+    out.length = 0;
+    const cx0 = this.cellCoord(minX);
+    const cx1 = this.cellCoord(maxX);
+    const cy0 = this.cellCoord(minY);
+    const cy1 = this.cellCoord(maxY);
+
+    for (let cx = cx0; cx <= cx1; cx++) {
+      for (let cy = cy0; cy <= cy1; cy++) {
+        const bucket = this.cells.get(this.key(cx, cy));
+        if (!bucket) continue;
+        for (let i = 0; i < bucket.length; i++) {
+          out.push(bucket[i]);
+        }
+      }
+    }
+    return out;
+  }
+
+  // Collect every item whose cell overlaps the circle's bounding box
+  queryRadius(x: number, y: number, radius: number, out: number[] = []): number[] {
+    return this.queryRect(x - radius, y - radius, x + radius, y + radius, out);
+  }
+}
@@ -0,0 +1,177 @@
+// 弹簧网络 - 果冻模式下连接相邻身体粒子的距离弹簧
+// Springs reference particles by handle, so they survive the store moving
+// particles between slots. The network is always maintained; the engine only
+// applies its forces (and tears springs) while config.jelly is on.
+
+import { SimulationConfig } from '../types';
+import { SPRING_LINK_DISTANCE, SPRING_MAX_LINKS } from '../constants';
+import { ParticleStore } from './particleStore';
+import { SpatialHash } from './spatialHash';
+import { MATERIALS_BY_INDEX } from './materials';
+
+// Unique key for an unordered handle pair (handles stay far below 2^20)
+function pairKey(a: number, b: number): number {
+  return a < b ? a * 1048576 + b : b * 1048576 + a;
+}
+
+export class SpringNetwork {
+  // Parallel arrays, one entry per spring, in no particular order
+  private a: number[] = [];
+  private b: number[] = [];
+  private rest: number[] = [];
+
+  private keys: Set<number> = new Set();
+  private degree: Map<number, number> = new Map(); // handle -> spring count
+  private candidates: number[] = [];
+
+  get count(): number {
+    return this.a.length;
+  }
+
+  linkCount(handle: number): number {
+    return this.degree.get(handle) ?? 0;
+  }
+
+  clear() {
+    this.a = [];
+    this.b = [];
+    this.rest = [];
+    this.keys.clear();
+    this.degree.clear();
+  }
+
+  add(a: number, b: number, restLength: number): boolean {
+    const key = pairKey(a, b);
+    if (a === b || this.keys.has(key)) return false;
+    this.keys.add(key);
+    this.a.push(a);
+    this.b.push(b);
+    this.rest.push(restLength);
+    this.degree.set(a, this.linkCount(a) + 1);
+    this.degree.set(b, this.linkCount(b) + 1);
+    return true;
+  }
+
+  // Swap-remove spring `index`
+  private removeAt(index: number) {
+    const a = this.a[index];
+    const b = this.b[index];
+    this.keys.delete(pairKey(a, b));
+    this.degree.set(a, this.linkCount(a) - 1);
+    this.degree.set(b, this.linkCount(b) - 1);
+
+    const last = this.a.length - 1;
+    this.a[index] = this.a[last];
+    this.b[index] = this.b[last];
+    this.rest[index] = this.rest[last];
+    this.a.pop();
+    this.b.pop();
+    this.rest.pop();
+  }
+
+  // Drop every spring attached to a particle (e.g. when it is launched)
+  detach(handle: number) {
+    if (this.linkCount(handle) === 0) return;
+    for (let i = this.a.length - 1; i >= 0; i--) {
+      if (this.a[i] === handle || this.b[i] === handle) this.removeAt(i);
+    }
+    this.degree.delete(handle);
+  }
+
+  // Drop springs whose particles died, before the store recycles their handles
+  prune(store: ParticleStore) {
+    for (let i = this.a.length - 1; i >= 0; i--) {
+      const slotA = store.slotOf(this.a[i]);
+      const slotB = store.slotOf(this.b[i]);
+      if (slotA < 0 || slotB < 0 || !store.isAlive(slotA) || !store.isAlive(slotB)) {
+        this.removeAt(i);
+      }
+    }
+  }
+
+  // Connect one in-body particle to its nearest in-body neighbours.
+  // The grid must be up to date with current positions.
+  link(store: ParticleStore, grid: SpatialHash, slot: number) {
+    const handle = store.handles[slot];
+    const x = store.x[slot];
+    const y = store.y[slot];
+    const candidates = this.candidates;
+
+    grid.queryRadius(x, y, SPRING_LINK_DISTANCE, candidates);
+    const distance = (j: number) => Math.hypot(store.x[j] - x, store.y[j] - y);
+    candidates.sort((i, j) => distance(i) - distance(j) || i - j);
+
+    for (const j of candidates) {
+      if (this.linkCount(handle) >= SPRING_MAX_LINKS) break;
+      if (j === slot || store.isEmitted(j) || !store.isAlive(j)) continue;
+      if (store.owner[j] !== store.owner[slot]) continue; // Never ties two players' slimes together
+      if (this.linkCount(store.handles[j]) >= SPRING_MAX_LINKS) continue;
+      const length = distance(j);
+      if (length >= SPRING_LINK_DISTANCE || length === 0) continue;
+      this.add(handle, store.handles[j], length);
+    }
+  }
+
+  // Fresh network over every in-body particle at its current rest shape
+  build(store: ParticleStore, grid: SpatialHash) {
+    this.clear();
+    for (let i = 0; i < store.count; i++) {
+      if (store.isAlive(i) && !store.isEmitted(i)) this.link(store, grid, i);
+    }
+  }
+
+  // Damped Hooke forces into fx/fy; springs stretched past the break ratio tear.
+  // Returns how many tore this call.
+  applyForces(store: ParticleStore, config: SimulationConfig): number {
+    let torn = 0;
+    for (let i = this.a.length - 1; i >= 0; i--) {
+      const sa = store.slotOf(this.a[i]);
+      const sb = store.slotOf(this.b[i]);
+      if (sa < 0 || sb < 0 || !store.isAlive(sa) || !store.isAlive(sb)) continue;
+
+      const dx = store.x[sb] - store.x[sa];
+      const dy = store.y[sb] - store.y[sa];
+      const length = Math.sqrt(dx * dx + dy * dy);
+      const rest = this.rest[i];
+      if (length > rest * config.springBreakRatio) {
+        this.removeAt(i);
+        torn++;
+        continue;
+      }
+      if (length === 0) continue;
+
+      const nx = dx / length;
+      const ny = dy / length;
+      // Stretching pulls the ends together; closing speed is damped
+      const closingSpeed = (store.vx[sb] - store.vx[sa]) * nx + (store.vy[sb] - store.vy[sa]) * ny;
+      // Stickier materials make stiffer springs (the average of both ends)
+      const cohesion = (MATERIALS_BY_INDEX[store.material[sa]].cohesion + MATERIALS_BY_INDEX[store.material[sb]].cohesion) / 2;
+      const force = config.springStiffness * cohesion * (length - rest) + config.springDamping * closingSpeed;
+
+      store.fx[sa] += nx * force;
+      store.fy[sa] += ny * force;
+      store.fx[sb] -= nx * force;
+      store.fy[sb] -= ny * force;
+    }
+    return torn;
+  }
+
+  forEach(visit: (a: number, b: number, restLength: number) => void) {
+    for (let i = 0; i < this.a.length; i++) {
+      visit(this.a[i], this.b[i], this.rest[i]);
+    }
+  }
+
+  // --- Snapshots ---
+
+  toArray(): [number, number, number][] {
+    return this.a.map((a, i) => [a, this.b[i], this.rest[i]]);
+  }
+
+  restore(springs: [number, number, number][]) {
+    this.clear();
+    for (const [a, b, rest] of springs) {
+      this.add(a, b, rest);
+    }
+  }
+}
@@ -15,6 +15,29 @@ export interface Particle {
   isEmitted: boolean; // true if launched, false if in-body
   health?: number;    // 粒子生命值（发射后）
   maxHealth?: number; // 最大生命值
+  age?: number;       // Seconds since launch
+  owner?: number;     // Player whose slime it belongs to (0 = player 1)
+  material?: MaterialId; // 粒子材质，默认 'normal'
+}
+
+// What a slime particle is made of (see services/materials.ts)
+export type MaterialId = 'normal' | 'sticky' | 'bouncy' | 'heavy' | 'explosive' | 'conductive';
+
+// A blob of material lying in the world; the first slime to touch it turns
+// `amount` of its body particles into that material
+export interface MaterialPickup {
+  id: number;
+  position: Vector2;
+  material: MaterialId;
+  amount: number;
+}
+
+// Food lying in the world; a slime body touching it grows `amount` new
+// particles where they touched (up to config.maxSlimeParticles)
+export interface Droplet {
+  id: number;
+  position: Vector2;
+  amount: number;
 }
 
 export interface SimulationConfig {
@@ -27,10 +50,43 @@ export interface SimulationConfig {
   attractionStrength: number; // Long range pull (Cohesion)
   interactionRadius: number; // How far they see each other
   damping: number; // Viscosity
+
+  // Fluid model: the pair forces above, smoothed-particle hydrodynamics or position-based fluids
+  solver: 'pairwise' | 'sph' | 'pbf';
+  restDensity: number;       // Target density for sph/pbf (≈ neighbours within interactionRadius)
+  pressureStiffness: number; // sph: pressure per unit of relative density error
+  viscosity: number;         // sph/pbf: how fast neighbouring velocities even out (1/s)
+  surfaceTension: number;    // sph/pbf: 0..1, how strongly a density deficit pulls particles together
+  solverIterations: number;  // pbf: constraint projection passes per update
+
+  // Jelly mode: distance springs between neighbouring body particles keep the shape
+  jelly: boolean;
+  springStiffness: number;   // Force per unit of stretch
+  springDamping: number;     // Force per unit of closing speed along the spring
+  springBreakRatio: number;  // Springs tear beyond this multiple of their rest length
+
+  // How HP loss sheds particles: never, a fixed number per hit, or the same fraction of the body as of the HP
+  shedMode: 'none' | 'perHit' | 'proportional';
+  shedPerHit: number;
+
+  // Launched particles: health lost per second, and a hard age limit in seconds (0 = none)
+  projectileDecay: number;
+  projectileLifetime: number;
+  // Launched or loose particles rejoin the body when slower than this, within this distance of it
+  reabsorbSpeed: number;
+  reabsorbDistance: number;
+  // Droplets stop growing a slime once it has this many particles, launched ones included
+  maxSlimeParticles: number;
+  // Pull of body particles toward the wall or ceiling they cling to while the stick key is held
+  adhesionForce: number;
   
   mouseInteractionRadius: number;
   mouseForce: number;
 
+  // Time stepping
+  substeps: number;         // Engine updates per fixed step (TIME_STEP / substeps each)
+  maxStepsPerFrame: number; // Fixed steps a single frame may catch up before dropping time
+
   // Visual toggles
   renderMode: 'blob' | 'particles' | 'debug';
 }
@@ -39,13 +95,61 @@ export interface KeyboardInput {
   left: boolean;
   right: boolean;
   jump: boolean;
+  stick: boolean; // Held to cling to walls and ceilings
+}
+
+// Enemy kinds with their own shape, stats and look; see services/enemyArchetypes.ts
+export type EnemyArchetypeId = 'brute' | 'bouncer' | 'spiky' | 'armored' | 'boss';
+
+// Enemy behavior states; see services/enemyBehavior.ts
+export type EnemyState = 'patrol' | 'chase' | 'flee' | 'jump' | 'idle' | 'windup' | 'charge';
+
+// An enemy's personality: which states it uses and how
+export interface EnemyBehavior {
+  initialState: 'patrol' | 'idle'; // What it does when nothing else applies
+  sightRange: number;   // Chases the slime when its center is this close (0 = never)
+  chaseSpeed: number;
+  fleeBelow: number;    // Runs away below this share of max health (0 = never)
+  fleeSpeed: number;
+  jumpInterval: number; // Seconds between hops (0 = never)
+  jumpHeight: number;
+  idleTime: number;     // Seconds to wait at each patrol point
+}
+
+// shoot: a bullet at the slime, pound: shockwaves along the ground both ways,
+// charge: a dash at the slime that hits harder than touching it
+export type EnemyAttackKind = 'shoot' | 'pound' | 'charge';
+
+export interface EnemyAttack {
+  kind: EnemyAttackKind;
+  range: number;    // Winds up when the slime's center is this close
+  cooldown: number; // Seconds between attacks
+  windup: number;   // Seconds of telegraph before it strikes
+  damage: number;
+  speed: number;    // Of the bullet, the shockwaves or the dash
+}
+
+// Enemy attacks that travel on their own; see PhysicsEngine.updateProjectiles
+export interface EnemyProjectile {
+  id: number;
+  kind: 'bullet' | 'shockwave';
+  position: Vector2;
+  velocity: Vector2;
+  radius: number;
+  damage: number;
+  life: number; // Seconds left
 }
 
 export interface Enemy {
   id: number;
+  archetype: EnemyArchetypeId;
   position: Vector2;
   velocity: Vector2;
-  size: number;              // 方块边长
+  mass: number;              // 质量，决定被击退和推动的程度
+  walkVelocity: number;      // Horizontal speed the behavior wants; traction pulls velocity.x toward it
+  grounded: boolean;         // Ended the last tick resting on a surface or the floor
+  blocked: boolean;          // A wall, the world edge or another enemy stopped it last tick
+  size: number;              // 外形尺寸（方块边长 / 圆直径）
   patrolPoints: Vector2[];   // 巡逻路径点
   currentPatrolIndex: number;
   patrolSpeed: number;
@@ -54,10 +158,97 @@ export interface Enemy {
   health: number;            // 敌人生命值
   maxHealth: number;         // 最大生命值
   isDead?: boolean;          // 是否死亡
+  behavior: EnemyBehavior;
+  state: EnemyState;
+  stateTime: number;         // Seconds spent in the current state
+  jumpTimer: number;         // Seconds until the next hop
+  attack: EnemyAttack | null;
+  attackTimer: number;       // Seconds until it may attack again
+  aim: Vector2;              // Unit direction of the attack being telegraphed
+  phases: BossPhase[];       // Boss phases in order, empty for regular enemies
+  phase: number;             // Phases entered so far; 0 = still fighting with its own stats
+  slowTime: number;          // Seconds left stuck in sticky slime, walking at ENEMY_SLOWED_SPEED
+}
+
+// A stage of a boss fight: from healthBelow × maxHealth down the boss moves
+// and attacks differently and calls in minions
+export interface BossPhase {
+  healthBelow: number;
+  speed: number;                    // Patrol speed
+  behavior: Partial<EnemyBehavior>; // Changes to the boss's behavior
+  attack: EnemyAttack | null;
+  minions: EnemyArchetypeId[];      // Spawned around the boss when the phase starts
+}
+
+// Static level geometry
+export type PlatformShape =
+  | { kind: 'box'; min: Vector2; max: Vector2 }  // Axis-aligned box
+  | { kind: 'segment'; a: Vector2; b: Vector2 }  // Two-sided line segment
+  | { kind: 'polygon'; points: Vector2[] };      // Convex polygon, either winding
+
+export interface Platform {
+  id: number;
+  shape: PlatformShape;
+  friction: number;    // 每步接触时切向速度损失比例 (0-1)
+  restitution: number; // 法向弹性 (0-1)
+  color?: string;
+}
+
+// Level files (see levels/README.md for the documented format)
+export interface LevelEnemy {
+  archetype: EnemyArchetypeId;
+  patrolPoints: Vector2[]; // Spawns at the first point
+  speed: number;
+  health: number;
+  size: number;
+  damage: number;
+  mass: number;
+  color: string;
+  behavior: EnemyBehavior;
+  attack: EnemyAttack | null;
+}
+
+export interface LevelBackground {
+  color: string;
+  gridColor: string | null; // null hides the grid
+}
+
+export interface LevelDefinition {
+  version: number;
+  name: string;
+  world: { width: number; height: number };
+  spawn: { x: number; y: number; particleCount: number };
+  enemies: LevelEnemy[];
+  platforms: Omit<Platform, 'id'>[];
+  pickups: Omit<MaterialPickup, 'id'>[];
+  droplets: Omit<Droplet, 'id'>[];
+  background: LevelBackground;
+}
+
+// One player's slime; its particles are the ones with that player as owner
+export interface SlimeState {
+  health: number;          // HP, the slime goes down at 0
+  invincibleTime: number;  // Seconds left before it can be hurt again
+  jumpCooldown: number;
+  jumpWasPressed: boolean;
+  isDown: boolean;         // Out of HP or particles; stays down until the reset
+  controlledFragment: number; // Id of the fragment the player steers, -1 until fragments are found
+  stamina: number;         // Drains while clinging to walls and ceilings, refills otherwise
+}
+
+// A connected piece of one player's slime, followed across steps by its particles
+export interface SlimeFragment {
+  id: number;
+  owner: number;
+  name: string;
+  particles: number[]; // Handles of its in-body particles
+  center: Vector2;
 }
 
 export interface GameState {
-  isGameOver: boolean;
+  isGameOver: boolean;    // Every player's slime is down
+  isVictory: boolean;     // The level's boss is beaten
+  slimes: SlimeState[];   // One per player
 }
 
 export interface AudioConfig {